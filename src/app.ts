@@ -6,8 +6,8 @@ import { env } from '@/config/env';
 import { telemetryConfig } from '@/config/telemetry';
 import { authController } from '@/modules/auth';
 import { dbAdminController } from '@/modules/db-admin';
-import { flowsController } from '@/modules/flows';
-import { tasksController } from '@/modules/tasks';
+import { flowsController, schedulesController } from '@/modules/flows';
+import { taskPoliciesController, tasksController } from '@/modules/tasks';
 import { usersController } from '@/modules/users';
 
 export const app = new Elysia()
@@ -65,7 +65,9 @@ export const app = new Elysia()
   .use(authController)
   .use(usersController)
   .use(tasksController)
+  .use(taskPoliciesController)
   .use(flowsController)
+  .use(schedulesController)
   .use(dbAdminController)
   .onError(({ code, error }) => {
     console.error(`Error [${code}]:`, error);
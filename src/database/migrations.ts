@@ -76,6 +76,11 @@ export async function runMigrations(): Promise<void> {
         description text,
         nodes text,
         start_node_id text,
+        default_locale text,
+        published_name text,
+        published_nodes text,
+        published_start_node_id text,
+        published_default_locale text,
         twilio_flow_sid text,
         status text,
         error_message text,
@@ -85,6 +90,21 @@ export async function runMigrations(): Promise<void> {
       )
     `);
 
+    // Colunas adicionadas depois da criação da tabela (snapshot publicado, idioma padrão)
+    for (const column of [
+      'published_name',
+      'published_nodes',
+      'published_start_node_id',
+      'default_locale',
+      'published_default_locale',
+    ]) {
+      await adminClient
+        .execute(`ALTER TABLE ${env.scylla.keyspace}.flows ADD ${column} text`)
+        .catch(() => {
+          // Coluna já existe
+        });
+    }
+
     // Lookup por twilio_flow_sid (para identificar flow por webhook)
     await adminClient.execute(`
       CREATE TABLE IF NOT EXISTS ${env.scylla.keyspace}.flows_by_twilio_sid (
@@ -93,6 +113,42 @@ export async function runMigrations(): Promise<void> {
       )
     `);
 
+    // Horários de atendimento usados pelo node "hours"
+    await adminClient.execute(`
+      CREATE TABLE IF NOT EXISTS ${env.scylla.keyspace}.business_hours_schedules (
+        id uuid PRIMARY KEY,
+        name text,
+        timezone text,
+        windows text,
+        holidays text,
+        created_at timestamp,
+        updated_at timestamp
+      )
+    `);
+
+    // Histórico de versões dos flows (snapshot a cada save/publish)
+    await adminClient.execute(`
+      CREATE TABLE IF NOT EXISTS ${env.scylla.keyspace}.flow_versions (
+        flow_id uuid,
+        version int,
+        reason text,
+        name text,
+        nodes text,
+        start_node_id text,
+        default_locale text,
+        definition text,
+        twilio_flow_sid text,
+        created_at timestamp,
+        PRIMARY KEY (flow_id, version)
+      ) WITH CLUSTERING ORDER BY (version DESC)
+    `);
+
+    await adminClient
+      .execute(`ALTER TABLE ${env.scylla.keyspace}.flow_versions ADD default_locale text`)
+      .catch(() => {
+        // Coluna já existe
+      });
+
     // ============================================
     // Tasks - atendimento humano (operadores)
     // ============================================
@@ -146,6 +202,30 @@ export async function runMigrations(): Promise<void> {
       )
     `);
 
+    // Quantidade de lembretes de inatividade já enviados (políticas com vários estágios)
+    for (const table of ['tasks', 'flex_tasks']) {
+      await adminClient
+        .execute(`ALTER TABLE ${env.scylla.keyspace}.${table} ADD reminders_sent int`)
+        .catch(() => {
+          // Coluna já existe
+        });
+    }
+
+    // Políticas de inatividade (lembretes + encerramento) por tipo de canal ou fila
+    await adminClient.execute(`
+      CREATE TABLE IF NOT EXISTS ${env.scylla.keyspace}.task_inactivity_policies (
+        id uuid PRIMARY KEY,
+        name text,
+        channel_type text,
+        queue text,
+        is_default boolean,
+        stages text,
+        close_action text,
+        created_at timestamp,
+        updated_at timestamp
+      )
+    `);
+
     // ============================================
     // Twilio Cache (Workflows / TaskChannels / Content Templates)
     // ============================================
@@ -157,6 +237,33 @@ export async function runMigrations(): Promise<void> {
         updated_at timestamp
       )
     `);
+
+    // Content Templates criados pelo serviço (registro para limpar templates órfãos)
+    await adminClient.execute(`
+      CREATE TABLE IF NOT EXISTS ${env.scylla.keyspace}.content_templates (
+        content_sid text PRIMARY KEY,
+        cache_key text,
+        template_type text,
+        template_name text,
+        node_id text,
+        flow_name text,
+        language text,
+        created_at timestamp
+      )
+    `);
+
+    // Status da aprovação WhatsApp por Content Template (inclusive SIDs informados manualmente)
+    await adminClient.execute(`
+      CREATE TABLE IF NOT EXISTS ${env.scylla.keyspace}.content_template_approvals (
+        content_sid text PRIMARY KEY,
+        status text,
+        category text,
+        approval_name text,
+        rejection_reason text,
+        submitted_at timestamp,
+        checked_at timestamp
+      )
+    `);
   } finally {
     await adminClient.shutdown();
   }
@@ -0,0 +1,56 @@
+import type { types } from 'cassandra-driver';
+import { getClient } from '@/database';
+import type {
+  ContentApprovalRecord,
+  WhatsAppApprovalCategory,
+  WhatsAppApprovalStatus,
+} from './flows.types';
+
+export class ContentApprovalsRepository {
+  private get client() {
+    return getClient();
+  }
+
+  async findBySids(contentSids: string[]): Promise<ContentApprovalRecord[]> {
+    if (contentSids.length === 0) return [];
+
+    const query = 'SELECT * FROM content_template_approvals WHERE content_sid IN ?';
+    const result = await this.client.execute(query, [contentSids], { prepare: true });
+    return result.rows.map((row) => this.mapRowToRecord(row));
+  }
+
+  async save(record: ContentApprovalRecord): Promise<void> {
+    const query = `
+      INSERT INTO content_template_approvals (content_sid, status, category, approval_name, rejection_reason, submitted_at, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.client.execute(
+      query,
+      [
+        record.content_sid,
+        record.status,
+        record.category ?? null,
+        record.approval_name ?? null,
+        record.rejection_reason ?? null,
+        record.submitted_at ?? null,
+        record.checked_at,
+      ],
+      { prepare: true },
+    );
+  }
+
+  private mapRowToRecord(row: types.Row): ContentApprovalRecord {
+    return {
+      content_sid: row.get('content_sid') ?? '',
+      status: (row.get('status') as WhatsAppApprovalStatus) ?? 'unknown',
+      category: (row.get('category') as WhatsAppApprovalCategory) ?? undefined,
+      approval_name: row.get('approval_name') ?? undefined,
+      rejection_reason: row.get('rejection_reason') ?? undefined,
+      submitted_at: row.get('submitted_at') ?? undefined,
+      checked_at: row.get('checked_at') ?? new Date(),
+    };
+  }
+}
+
+export const contentApprovalsRepository = new ContentApprovalsRepository();
@@ -0,0 +1,456 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  DEFAULT_NO_MATCH_MESSAGE,
+  DEFAULT_NO_MATCH_RETRIES,
+  DEFAULT_VALIDATION_ERROR_MESSAGE,
+  FlowBuilder,
+  QUESTION_VALIDATOR_PATTERNS,
+} from './flows.builder';
+import type { BusinessHoursSchedule, Flow, FlowNode, TwilioWidget } from './flows.types';
+
+function createNode(node: Partial<FlowNode> & Pick<FlowNode, 'id' | 'type'>): FlowNode {
+  return { position: { x: 0, y: 0 }, content: '', ...node };
+}
+
+function createFlow(nodes: FlowNode[], flow: Partial<Flow> = {}): Flow {
+  return {
+    id: 'flow-1',
+    name: 'Teste',
+    nodes,
+    start_node_id: nodes[0]?.id ?? '',
+    status: 'draft',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...flow,
+  };
+}
+
+function getWidget(widgets: TwilioWidget[], name: string): TwilioWidget {
+  const widget = widgets.find((candidate) => candidate.name === name);
+  if (!widget) throw new Error(`Widget "${name}" not found`);
+  return widget;
+}
+
+// Resumo das transições ("evento -> próximo widget") para comparar o grafo gerado
+function getTransitions(widget: TwilioWidget): string[] {
+  return widget.transitions.map((transition) => `${transition.event} -> ${transition.next ?? ''}`);
+}
+
+describe('FlowBuilder', () => {
+  const builder = new FlowBuilder();
+
+  describe('buttons', () => {
+    it('resolves flow placeholders in the numbered text menu', () => {
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'menu',
+            type: 'buttons',
+            content: 'Olá {{var.nome}}, escolha:',
+            buttons: [
+              {
+                id: 'a',
+                label: 'Pedido {{http.pedido.codigo}}',
+                value: 'pedido',
+                nextNodeId: 'fim',
+              },
+              { id: 'b', label: 'Outro', value: 'outro', nextNodeId: 'fim' },
+            ],
+          }),
+          createNode({ id: 'fim', type: 'message', content: 'Até logo' }),
+          createNode({ id: 'pedido', type: 'http', http: { method: 'GET', url: 'https://x.io' } }),
+        ]),
+      );
+
+      const menu = getWidget(states, 'menu');
+      expect(menu.properties.message_type).toBe('custom');
+      expect(menu.properties.body).toBe(
+        'Olá {{flow.variables.nome}}, escolha:\n\n1. Pedido {{widgets.pedido.parsed.codigo}}\n2. Outro',
+      );
+    });
+  });
+
+  describe('condition', () => {
+    it('compiles rules into a split with an else branch', () => {
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'plano',
+            type: 'condition',
+            condition: {
+              variable: 'plano',
+              rules: [
+                { id: 'r1', operator: 'equals', value: 'premium', nextNodeId: 'vip' },
+                { id: 'r2', operator: 'is_empty', nextNodeId: 'sem_plano' },
+              ],
+              elseNodeId: 'padrao',
+            },
+          }),
+          createNode({ id: 'vip', type: 'message', content: 'VIP' }),
+          createNode({ id: 'sem_plano', type: 'message', content: 'Sem plano' }),
+          createNode({ id: 'padrao', type: 'message', content: 'Padrão' }),
+        ]),
+      );
+
+      const split = getWidget(states, 'plano');
+      expect(split.type).toBe('split-based-on');
+      expect(split.properties.input).toBe('{{flow.variables.plano}}');
+      expect(getTransitions(split)).toEqual([
+        'match -> vip',
+        'match -> sem_plano',
+        'noMatch -> padrao',
+      ]);
+      expect(split.transitions.map((transition) => transition.conditions?.[0])).toEqual([
+        {
+          type: 'equal_to',
+          friendly_name: 'If value equal_to premium',
+          value: 'premium',
+          arguments: ['{{flow.variables.plano}}'],
+        },
+        {
+          type: 'is_blank',
+          friendly_name: 'If value is_blank',
+          value: 'Is Blank',
+          arguments: ['{{flow.variables.plano}}'],
+        },
+        undefined,
+      ]);
+    });
+  });
+
+  describe('http', () => {
+    it('compiles a make-http-request with success and failed branches', () => {
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'consulta',
+            type: 'http',
+            nextNodeId: 'ok',
+            http: {
+              method: 'POST',
+              url: 'https://api.exemplo.com/pedidos/{{var.pedido}}',
+              headers: { Authorization: 'Bearer {{var.token}}' },
+              body: '{"cliente": "{{trigger.message.Author}}"}',
+              failedNodeId: 'erro',
+            },
+          }),
+          createNode({ id: 'ok', type: 'message', content: 'Status: {{http.consulta.status}}' }),
+          createNode({ id: 'erro', type: 'message', content: 'Falhou' }),
+        ]),
+      );
+
+      const request = getWidget(states, 'consulta');
+      expect(request.type).toBe('make-http-request');
+      expect(request.properties).toMatchObject({
+        method: 'POST',
+        content_type: 'application/json;charset=utf-8',
+        add_twilio_auth: false,
+        url: 'https://api.exemplo.com/pedidos/{{flow.variables.pedido}}',
+        headers: [{ key: 'Authorization', value: 'Bearer {{flow.variables.token}}' }],
+        body: '{"cliente": "{{trigger.message.Author}}"}',
+      });
+      expect(getTransitions(request)).toEqual(['success -> ok', 'failed -> erro']);
+      expect(getWidget(states, 'ok').properties.body).toBe(
+        'Status: {{widgets.consulta.parsed.status}}',
+      );
+    });
+
+    it('sends form bodies as parameters', () => {
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'form',
+            type: 'http',
+            http: {
+              method: 'POST',
+              url: 'https://api.exemplo.com',
+              contentType: 'application/x-www-form-urlencoded',
+              body: 'nome={{var.nome}}&origem=bot',
+            },
+          }),
+        ]),
+      );
+
+      const request = getWidget(states, 'form');
+      expect(request.properties.content_type).toBe(
+        'application/x-www-form-urlencoded;charset=utf-8',
+      );
+      expect(request.properties.parameters).toEqual([
+        { key: 'nome', value: '{{flow.variables.nome}}' },
+        { key: 'origem', value: 'bot' },
+      ]);
+      expect(request.properties.body).toBeUndefined();
+    });
+  });
+
+  describe('question validation', () => {
+    it('builds a retry loop entered through the counter reset', () => {
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'cpf',
+            type: 'question',
+            content: 'Informe seu CPF',
+            saveAs: 'cpf',
+            nextNodeId: 'ok',
+            validation: { type: 'cpf', maxRetries: 2, exhaustedNodeId: 'atendente' },
+          }),
+          createNode({ id: 'ok', type: 'message', content: 'Obrigado' }),
+          createNode({ id: 'atendente', type: 'message', content: 'Vou te transferir' }),
+        ]),
+      );
+
+      expect(getTransitions(getWidget(states, 'bot_init'))).toEqual(['next -> cpf_retry_reset']);
+      expect(getTransitions(getWidget(states, 'cpf_retry_reset'))).toEqual(['next -> cpf']);
+      expect(getTransitions(getWidget(states, 'cpf'))[0]).toBe('incomingMessage -> cpf_validate');
+
+      const validate = getWidget(states, 'cpf_validate');
+      expect(validate.transitions[0]?.conditions?.[0]?.value).toBe(QUESTION_VALIDATOR_PATTERNS.cpf);
+      expect(getTransitions(validate)).toEqual(['match -> cpf_save', 'noMatch -> cpf_retry']);
+      expect(getTransitions(getWidget(states, 'cpf_save'))).toEqual(['next -> ok']);
+
+      const check = getWidget(states, 'cpf_retry_check');
+      expect(check.transitions[0]?.conditions?.[0]?.value).toBe('2');
+      expect(getTransitions(check)).toEqual(['match -> atendente', 'noMatch -> cpf_retry_message']);
+
+      const message = getWidget(states, 'cpf_retry_message');
+      expect(message.properties.body).toBe(DEFAULT_VALIDATION_ERROR_MESSAGE);
+      expect(getTransitions(message)).toEqual(['sent -> cpf', 'failed -> ']);
+    });
+  });
+
+  describe('fallback branches', () => {
+    const menuButtons = [
+      { id: 'a', label: 'Vendas', value: 'vendas', nextNodeId: 'vendas' },
+      { id: 'b', label: 'Suporte', value: 'suporte', nextNodeId: 'suporte' },
+    ];
+    const targets = ['vendas', 'suporte', 'ausente', 'falha', 'invalido'].map((id) =>
+      createNode({ id, type: 'message', content: id }),
+    );
+
+    it('wires timeout, delivery failure and no-match retries on menus', () => {
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'menu',
+            type: 'buttons',
+            content: 'Escolha',
+            buttons: menuButtons,
+            onTimeoutNodeId: 'ausente',
+            onFailureNodeId: 'falha',
+            onNoMatchNodeId: 'invalido',
+          }),
+          ...targets,
+        ]),
+      );
+
+      expect(getTransitions(getWidget(states, 'menu'))).toEqual([
+        'incomingMessage -> menu_split',
+        'timeout -> ausente',
+        'deliveryFailure -> falha',
+      ]);
+      expect(getTransitions(getWidget(states, 'menu_split'))).toEqual([
+        'match -> vendas',
+        'match -> suporte',
+        'noMatch -> menu_retry',
+      ]);
+
+      const check = getWidget(states, 'menu_retry_check');
+      expect(check.transitions[0]?.conditions?.[0]?.value).toBe(String(DEFAULT_NO_MATCH_RETRIES));
+      expect(getTransitions(check)).toEqual(['match -> invalido', 'noMatch -> menu_retry_message']);
+      expect(getWidget(states, 'menu_retry_message').properties.body).toBe(
+        DEFAULT_NO_MATCH_MESSAGE,
+      );
+    });
+
+    it('goes straight to the no-match branch without retries', () => {
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'menu',
+            type: 'buttons',
+            content: 'Escolha',
+            buttons: menuButtons,
+            onNoMatchNodeId: 'invalido',
+            noMatchRetries: 0,
+          }),
+          ...targets,
+        ]),
+      );
+
+      expect(getTransitions(getWidget(states, 'menu_split')).at(-1)).toBe('noMatch -> invalido');
+      expect(states.some((widget) => widget.name.startsWith('menu_retry'))).toBe(false);
+    });
+  });
+
+  describe('hours', () => {
+    it('checks holidays first and then each opening window', () => {
+      const schedule: BusinessHoursSchedule = {
+        id: 'comercial',
+        name: 'Comercial',
+        timezone: 'America/Sao_Paulo',
+        windows: [
+          { day: 1, start: '08:00', end: '18:00' },
+          { day: 6, start: '09:00', end: '12:00' },
+        ],
+        holidays: ['2026-12-25', '2027-01-01'],
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      const { states } = builder.build(
+        createFlow([
+          createNode({
+            id: 'horario',
+            type: 'hours',
+            nextNodeId: 'aberto',
+            hours: { scheduleId: 'comercial', closedNodeId: 'fechado' },
+          }),
+          createNode({ id: 'aberto', type: 'message', content: 'Aberto' }),
+          createNode({ id: 'fechado', type: 'message', content: 'Fechado' }),
+        ]),
+        { schedules: new Map([[schedule.id, schedule]]), now: new Date('2026-10-19T12:00:00Z') },
+      );
+
+      const variables = getWidget(states, 'horario');
+      expect(variables.type).toBe('set-variables');
+      expect(variables.properties.variables).toMatchObject([
+        { key: 'horario_date' },
+        { key: 'horario_time' },
+      ]);
+      expect(getTransitions(variables)).toEqual(['next -> horario_check']);
+
+      const check = getWidget(states, 'horario_check');
+      expect(check.properties.input).toBe('{{flow.variables.horario_time}}');
+      expect(getTransitions(check)).toEqual([
+        'match -> fechado',
+        'match -> aberto',
+        'match -> aberto',
+        'noMatch -> fechado',
+      ]);
+      expect(
+        check.transitions.map((transition) => transition.conditions?.map((c) => c.value)),
+      ).toEqual([['2026-12-25, 2027-01-01'], ['10799', '11800'], ['60899', '61200'], undefined]);
+    });
+  });
+
+  describe('subflow', () => {
+    const nodes = [
+      createNode({
+        id: 'pesquisa',
+        type: 'subflow',
+        nextNodeId: 'fim',
+        subflow: { flowId: 'flow-pesquisa', failedNodeId: 'erro' },
+      }),
+      createNode({ id: 'fim', type: 'message', content: 'Obrigado' }),
+      createNode({ id: 'erro', type: 'message', content: 'Falhou' }),
+    ];
+
+    it('runs the published child flow', () => {
+      const { states } = builder.build(createFlow(nodes), {
+        subflowSids: new Map([['flow-pesquisa', 'FW11111111111111111111111111111111']]),
+      });
+
+      const subflow = getWidget(states, 'pesquisa');
+      expect(subflow.type).toBe('run-subflow');
+      expect(subflow.properties).toMatchObject({
+        flow_sid: 'FW11111111111111111111111111111111',
+        flow_revision: 'LatestPublished',
+        parameters: [],
+      });
+      expect(getTransitions(subflow)).toEqual(['completed -> fim', 'failed -> erro']);
+    });
+
+    it('keeps a placeholder SID when the child flow is not published', () => {
+      const { states } = builder.build(createFlow(nodes));
+
+      expect(getWidget(states, 'pesquisa').properties.flow_sid).toBe(
+        'FW00000000000000000000000000000000',
+      );
+    });
+  });
+
+  describe('end', () => {
+    it('sends the goodbye and closes the conversation', () => {
+      const { states } = builder.build(
+        createFlow([createNode({ id: 'tchau', type: 'end', content: 'Até mais, {{var.nome}}' })]),
+      );
+
+      const goodbye = getWidget(states, 'tchau');
+      expect(goodbye.properties.body).toBe('Até mais, {{flow.variables.nome}}');
+      expect(getTransitions(goodbye)).toEqual(['sent -> tchau_close', 'failed -> tchau_close']);
+
+      const close = getWidget(states, 'tchau_close');
+      expect(close.type).toBe('make-http-request');
+      expect(close.properties).toMatchObject({
+        method: 'POST',
+        add_twilio_auth: true,
+        parameters: [{ key: 'State', value: 'closed' }],
+      });
+      expect(getTransitions(close)).toEqual(['success -> ', 'failed -> ']);
+    });
+
+    it('closes right away without a goodbye message', () => {
+      const { states } = builder.build(
+        createFlow([createNode({ id: 'tchau', type: 'end', content: '  ' })]),
+      );
+
+      expect(getWidget(states, 'tchau').type).toBe('make-http-request');
+      expect(states.some((widget) => widget.name === 'tchau_close')).toBe(false);
+    });
+  });
+
+  describe('locales', () => {
+    it('builds one branch per locale behind the locale split', () => {
+      const { states } = builder.build(
+        createFlow(
+          [
+            createNode({
+              id: 'menu',
+              type: 'buttons',
+              content: 'Olá! Escolha:',
+              noMatchRetries: 0,
+              buttons: [{ id: 'a', label: 'Suporte', value: 'suporte', nextNodeId: 'fim' }],
+              translations: {
+                en: { content: 'Hi! Choose:', buttons: { a: 'Support' } },
+                es: { content: '¡Hola! Elige:' },
+              },
+            }),
+            createNode({
+              id: 'fim',
+              type: 'message',
+              content: 'Até logo',
+              translations: { en: { content: 'Bye' } },
+            }),
+          ],
+          { default_locale: 'pt_BR' },
+        ),
+      );
+
+      expect(getTransitions(getWidget(states, 'bot_init'))).toEqual(['next -> locale_split']);
+
+      const split = getWidget(states, 'locale_split');
+      expect(split.properties.input).toBe('{{flow.variables.locale}}');
+      expect(getTransitions(split)).toEqual([
+        'match -> menu__en',
+        'match -> menu__es',
+        'noMatch -> menu',
+      ]);
+      expect(split.transitions.map((transition) => transition.conditions?.[0]?.value)).toEqual([
+        'en',
+        'es',
+        undefined,
+      ]);
+
+      expect(getWidget(states, 'menu').properties.body).toBe('Olá! Escolha:\n\n1. Suporte');
+      expect(getWidget(states, 'menu__en').properties.body).toBe('Hi! Choose:\n\n1. Support');
+      expect(getWidget(states, 'menu__es').properties.body).toBe('¡Hola! Elige:\n\n1. Suporte');
+      expect(getTransitions(getWidget(states, 'menu__en_split'))).toEqual([
+        'match -> fim__en',
+        'noMatch -> ',
+      ]);
+      expect(getWidget(states, 'fim__en').properties.body).toBe('Bye');
+      expect(getWidget(states, 'fim__es').properties.body).toBe('Até logo');
+    });
+  });
+});
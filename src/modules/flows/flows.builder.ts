@@ -1,7 +1,27 @@
+import {
+  CONTENT_VARIABLE_PATTERN,
+  formatMenuAsText,
+  getButtonsTemplateType,
+} from './flows.content';
+import { getNextNodeIds, getReachableNodeIds, getReplyButtons, isReplyButton } from './flows.graph';
+import { buildLocalTimeLiquid, timeToNumber } from './flows.hours';
+import {
+  buildLocaleDetectionLiquid,
+  getFlowDefaultLocale,
+  getFlowLocales,
+  localizeNodes,
+} from './flows.locales';
+import { paginateMenuNodes } from './flows.menus';
 import type {
+  ConditionOperator,
+  ConditionRule,
+  ContentVariableBinding,
   Flow,
+  FlowBuildContext,
   FlowButton,
   FlowNode,
+  QuestionValidatorType,
+  TwilioCondition,
   TwilioFlowDefinition,
   TwilioTransition,
   TwilioWidget,
@@ -26,12 +46,85 @@ const LAYOUT = {
   MIN_MESSAGE_TO_SPLIT_GAP: 250,
   MIN_SPLIT_TO_CHILD_GAP: 250,
   TRANSFER_CLONE_Y_OFFSET: 240,
+  // Offset Y do set-variables que guarda a resposta de uma pergunta
+  SAVE_ANSWER_Y_OFFSET: 250,
+  // Deslocamento X dos widgets do loop de nova tentativa (à esquerda do node)
+  RETRY_X_OFFSET: -420,
+  // Offset Y (acima do node) do reset do contador de tentativas
+  RETRY_RESET_Y_OFFSET: 200,
   // Posição X do widget de timeout (à esquerda)
   FALLBACK_X: 210,
+  // Distância horizontal entre os ramos de cada idioma (além da largura do ramo)
+  LOCALE_BRANCH_SPACING: 1400,
+  // Deslocamento X do split de idioma em relação ao bot_init
+  LOCALE_SPLIT_X_OFFSET: 270,
 } as const;
 
+const LOCALE_INPUT = '{{flow.variables.locale}}';
+
 const DEFAULT_TIMEOUT = 3600;
 
+// SIDs usados quando o node não informa o recurso (o flow publica, mas não funciona)
+export const PLACEHOLDER_WORKFLOW_SID = 'WW00000000000000000000000000000000';
+export const PLACEHOLDER_TASK_CHANNEL_SID = 'TC00000000000000000000000000000000';
+const PLACEHOLDER_FLOW_SID = 'FW00000000000000000000000000000000';
+
+// Mesma operação do TasksService.closeConversation (Conversation -> state closed)
+const CLOSE_CONVERSATION_URL =
+  'https://conversations.twilio.com/v1/Services/{{trigger.message.InstanceSid}}/Conversations/{{trigger.message.ConversationSid}}';
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_VALIDATION_ERROR_MESSAGE = 'Resposta inválida. Por favor, tente novamente.';
+export const DEFAULT_NO_MATCH_RETRIES = 2;
+export const DEFAULT_NO_MATCH_MESSAGE = 'Opção inválida. Por favor, escolha uma das opções abaixo.';
+
+// Regex dos validadores embutidos do node "question"
+export const QUESTION_VALIDATOR_PATTERNS: Record<
+  Exclude<QuestionValidatorType, 'regex'>,
+  string
+> = {
+  cpf: '^\\d{3}\\.?\\d{3}\\.?\\d{3}-?\\d{2}$',
+  email: '^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$',
+  phone: '^\\+?(\\d[\\s().-]?){10,13}$',
+  date: '^(0[1-9]|[12]\\d|3[01])/(0[1-9]|1[0-2])/\\d{4}$',
+  number: '^-?\\d+([.,]\\d+)?$',
+};
+
+/**
+ * Respostas aceitas por um botão no menu em texto: número, valor ou label (minúsculos).
+ * O simulador usa a mesma regra.
+ */
+export function getButtonMatchValues(button: FlowButton, index: number): string[] {
+  const matchValues = [String(index + 1), button.value.toLowerCase(), button.label.toLowerCase()];
+  return [...new Set(matchValues.filter(Boolean))];
+}
+
+// {{http.<nodeId>[.campo...]: o restante (filtros Liquid e "}}") é preservado
+const HTTP_PLACEHOLDER_PATTERN = /\{\{\s*http\.([a-zA-Z0-9_-]+)((?:\.[a-zA-Z0-9_]+)*)/g;
+
+// {{var.<nome>: variável do flow (ex.: gravada via "saveAs")
+const VARIABLE_PLACEHOLDER_PATTERN = /\{\{\s*var\.([a-zA-Z_][a-zA-Z0-9_]*)/g;
+
+/**
+ * Texto com {{var.*}} ou {{http.*}}: só o builder resolve esses placeholders (em Liquid no
+ * widget), então não podem ir para um Content Template estático.
+ */
+export function hasFlowPlaceholders(text: string): boolean {
+  return /\{\{\s*(var|http)\./.test(text);
+}
+
+// Operadores do node "condition" -> tipos de condição do widget split-based-on
+const CONDITION_OPERATOR_TYPES: Record<ConditionOperator, string> = {
+  equals: 'equal_to',
+  not_equals: 'not_equal_to',
+  contains: 'contains',
+  not_contains: 'does_not_contain',
+  regex: 'regex',
+  greater_than: 'greater_than',
+  less_than: 'less_than',
+  is_empty: 'is_blank',
+  is_not_empty: 'is_not_blank',
+};
+
 export class FlowBuilder {
   private widgets: TwilioWidget[] = [];
   private nodeMap: Map<string, FlowNode> = new Map();
@@ -42,8 +135,23 @@ export class FlowBuilder {
   private transferPrimarySource: Map<string, string> = new Map();
   private transferCloneByEdge: Map<string, string> = new Map();
   private botInitWidgetName = 'bot_init';
+  private localeSplitWidgetName = 'locale_split';
+  private context: FlowBuildContext = {};
+  private defaultLocale = '';
+  private locales: string[] = [];
+  // Ramo do idioma em construção: sufixo dos nomes dos widgets e deslocamento no canvas
+  private widgetSuffix = '';
+  private branchOffsetX = 0;
+
+  build(sourceFlow: Flow, context: FlowBuildContext = {}): TwilioFlowDefinition {
+    this.defaultLocale = getFlowDefaultLocale(sourceFlow);
+    // Menus com mais de 10 opções viram páginas encadeadas por "mais opções"
+    const flow: Flow = {
+      ...sourceFlow,
+      nodes: paginateMenuNodes(sourceFlow.nodes, this.defaultLocale),
+    };
 
-  build(flow: Flow): TwilioFlowDefinition {
+    this.context = context;
     this.widgets = [];
     this.nodeMap = new Map();
     this.processedNodes = new Set();
@@ -52,6 +160,9 @@ export class FlowBuilder {
     this.transferIncomingSources = new Map();
     this.transferPrimarySource = new Map();
     this.transferCloneByEdge = new Map();
+    this.widgetSuffix = '';
+    this.branchOffsetX = 0;
+    this.locales = getFlowLocales(flow);
     this.botInitWidgetName = this.getWidgetName('bot_init');
 
     // Mapear nodes por ID
@@ -60,17 +171,27 @@ export class FlowBuilder {
     }
 
     this.botInitWidgetName = this.getUniqueInternalWidgetName('bot_init');
+    this.localeSplitWidgetName = this.getUniqueInternalWidgetName('locale_split');
 
     // Calcular posições organizadas
     this.calculatePositions(flow);
-    this.prepareTransferClones(flow);
 
     // Criar widget Trigger
     this.createTriggerWidget();
     this.createBotInitWidget(flow);
 
-    // Processar nodes em ordem de fluxo
-    this.processNodeRecursive(flow.start_node_id);
+    if (this.isMultiLocale()) {
+      this.createLocaleSplitWidget();
+    }
+
+    // Um ramo completo de widgets por idioma; o idioma padrão mantém os nomes sem sufixo
+    const branchWidth = this.getLayoutWidth() + LAYOUT.LOCALE_BRANCH_SPACING;
+    this.locales.forEach((locale, index) => {
+      this.buildLocaleBranch(flow, locale, index * branchWidth);
+    });
+
+    this.widgetSuffix = '';
+    this.branchOffsetX = 0;
     this.createFallbackWidgets();
 
     // Criar widgets de fallback no final
@@ -109,20 +230,8 @@ export class FlowBuilder {
     for (const node of flow.nodes) {
       if (!reachable.has(node.id)) continue;
 
-      if (node.buttons) {
-        const children = node.buttons
-          .map((btn) => btn.nextNodeId)
-          .filter((childId) => reachable.has(childId));
-        childrenByNodeId.set(node.id, children);
-        continue;
-      }
-
-      if (node.nextNodeId && reachable.has(node.nextNodeId)) {
-        childrenByNodeId.set(node.id, [node.nextNodeId]);
-        continue;
-      }
-
-      childrenByNodeId.set(node.id, []);
+      const children = getNextNodeIds(node).filter((childId) => reachable.has(childId));
+      childrenByNodeId.set(node.id, children);
     }
 
     const widthCache = new Map<string, number>();
@@ -144,7 +253,7 @@ export class FlowBuilder {
 
       if (!node || children.length === 0) {
         width = 1;
-      } else if (node.buttons) {
+      } else if (children.length > 1) {
         width = 0;
         for (const childId of children) {
           width += getWidth(childId);
@@ -177,30 +286,49 @@ export class FlowBuilder {
         y: Math.round(LAYOUT.START_Y + level * LAYOUT.VERTICAL_SPACING),
       });
 
-      const node = this.nodeMap.get(nodeId);
-      if (!node) return;
-
-      if (node.buttons) {
-        const children = childrenByNodeId.get(nodeId) || [];
-        let currentLeft = leftSlot;
-
-        for (const childId of children) {
-          const childWidth = getWidth(childId);
-          place(childId, currentLeft, level + 1);
-          currentLeft += childWidth;
-        }
-        return;
-      }
+      const children = childrenByNodeId.get(nodeId) || [];
+      let currentLeft = leftSlot;
 
-      const nextId = node.nextNodeId;
-      if (nextId) {
-        place(nextId, leftSlot, level + 1);
+      for (const childId of children) {
+        const childWidth = getWidth(childId);
+        place(childId, currentLeft, level + 1);
+        currentLeft += childWidth;
       }
     };
 
     place(flow.start_node_id, 0, 0);
   }
 
+  private isMultiLocale(): boolean {
+    return this.locales.length > 1;
+  }
+
+  private getLocaleSuffix(locale: string): string {
+    return locale === this.defaultLocale ? '' : `__${locale}`;
+  }
+
+  private getLayoutWidth(): number {
+    const xs = [...this.nodePositions.values()].map((position) => position.x);
+    return xs.length > 0 ? Math.max(...xs) - Math.min(...xs) : 0;
+  }
+
+  /**
+   * Processa o grafo com os nodes traduzidos para `locale` (conteúdo e Content Template do
+   * idioma), gerando widgets com o sufixo do idioma.
+   */
+  private buildLocaleBranch(flow: Flow, locale: string, offsetX: number): void {
+    this.widgetSuffix = this.getLocaleSuffix(locale);
+    this.branchOffsetX = offsetX;
+    this.nodeMap = new Map(
+      localizeNodes(flow.nodes, locale, this.defaultLocale).map((node) => [node.id, node]),
+    );
+    this.processedNodes = new Set();
+    this.prepareTransferClones(flow);
+
+    // Processar nodes em ordem de fluxo
+    this.processNodeRecursive(flow.start_node_id);
+  }
+
   private processNodeRecursive(nodeId: string): void {
     if (this.processedNodes.has(nodeId)) return;
 
@@ -210,12 +338,8 @@ export class FlowBuilder {
     this.processedNodes.add(nodeId);
     this.processNode(node);
 
-    if (node.buttons) {
-      for (const btn of node.buttons) {
-        this.processNodeRecursive(btn.nextNodeId);
-      }
-    } else if (node.nextNodeId) {
-      this.processNodeRecursive(node.nextNodeId);
+    for (const nextId of getNextNodeIds(node)) {
+      this.processNodeRecursive(nextId);
     }
   }
 
@@ -239,8 +363,19 @@ export class FlowBuilder {
   }
 
   private createBotInitWidget(flow: Flow): void {
-    const nextWidgetName = this.getWidgetName(this.startNodeId);
+    const nextWidgetName = this.isMultiLocale()
+      ? this.localeSplitWidgetName
+      : this.getEntryWidgetName(this.startNodeId);
     const startPosition = this.getNodePosition(this.startNodeId);
+    const localeVariables = this.isMultiLocale()
+      ? [
+          {
+            type: 'string',
+            value: buildLocaleDetectionLiquid(this.locales, this.defaultLocale),
+            key: 'locale',
+          },
+        ]
+      : [];
 
     this.widgets.push({
       name: this.botInitWidgetName,
@@ -256,12 +391,51 @@ export class FlowBuilder {
             value: flow.name,
             key: 'address',
           },
+          ...localeVariables,
         ],
       },
       transitions: [{ event: 'next', next: nextWidgetName }],
     });
   }
 
+  /**
+   * Direciona para o ramo do idioma detectado no bot_init; idiomas sem ramo caem no padrão.
+   */
+  private createLocaleSplitWidget(): void {
+    const startWidgetName = this.getEntryWidgetName(this.startNodeId);
+    const startPosition = this.getNodePosition(this.startNodeId);
+
+    const transitions: TwilioTransition[] = this.locales
+      .filter((locale) => locale !== this.defaultLocale)
+      .map((locale) => ({
+        event: 'match',
+        conditions: [
+          {
+            type: 'equal_to',
+            friendly_name: `If locale equal_to ${locale}`,
+            value: locale,
+            arguments: [LOCALE_INPUT],
+          },
+        ],
+        next: this.getLocaleEntryWidgetName(locale),
+      }));
+
+    transitions.push({ event: 'noMatch', next: startWidgetName });
+
+    this.widgets.push({
+      name: this.localeSplitWidgetName,
+      type: 'split-based-on',
+      properties: {
+        offset: {
+          x: startPosition.x + LAYOUT.LOCALE_SPLIT_X_OFFSET,
+          y: startPosition.y - 110,
+        },
+        input: LOCALE_INPUT,
+      },
+      transitions,
+    });
+  }
+
   private createFallbackWidgets(): void {
     return;
 
@@ -318,11 +492,31 @@ export class FlowBuilder {
       case 'transfer':
         this.createTransferWidget(node);
         break;
+      case 'condition':
+        this.createConditionWidget(node);
+        break;
+      case 'http':
+        this.createHttpRequestWidget(node);
+        break;
+      case 'hours':
+        this.createHoursWidget(node);
+        break;
+      case 'subflow':
+        this.createSubflowWidget(node);
+        break;
+      case 'media':
+        this.createMediaWidget(node);
+        break;
+      case 'end':
+        this.createEndWidget(node);
+        break;
     }
   }
 
   private getNodePosition(nodeId: string): { x: number; y: number } {
-    return this.nodePositions.get(nodeId) || { x: LAYOUT.START_X, y: LAYOUT.START_Y };
+    const position = this.nodePositions.get(nodeId) || { x: LAYOUT.START_X, y: LAYOUT.START_Y };
+    if (!this.branchOffsetX) return position;
+    return { x: position.x + this.branchOffsetX, y: position.y };
   }
 
   private prepareTransferClones(flow: Flow): void {
@@ -335,21 +529,11 @@ export class FlowBuilder {
     for (const node of flow.nodes) {
       if (!reachable.has(node.id)) continue;
 
-      if (node.buttons) {
-        for (const btn of node.buttons) {
-          if (!reachable.has(btn.nextNodeId)) continue;
-          const target = this.nodeMap.get(btn.nextNodeId);
-          if (target?.type === 'transfer') {
-            this.addTransferIncomingSource(btn.nextNodeId, node.id);
-          }
-        }
-      }
-
-      if (node.nextNodeId) {
-        if (!reachable.has(node.nextNodeId)) continue;
-        const target = this.nodeMap.get(node.nextNodeId);
+      for (const nextId of getNextNodeIds(node)) {
+        if (!reachable.has(nextId)) continue;
+        const target = this.nodeMap.get(nextId);
         if (target?.type === 'transfer') {
-          this.addTransferIncomingSource(node.nextNodeId, node.id);
+          this.addTransferIncomingSource(nextId, node.id);
         }
       }
     }
@@ -401,45 +585,51 @@ export class FlowBuilder {
 
   private resolveNextWidgetName(fromNodeId: string, toNodeId: string): string {
     const override = this.transferCloneByEdge.get(`${fromNodeId}=>${toNodeId}`);
-    return override || this.getWidgetName(toNodeId);
+    return override || this.getEntryWidgetName(toNodeId);
   }
 
-  private getReachableNodes(startNodeId: string): Set<string> {
-    const visited = new Set<string>();
-
-    const walk = (nodeId: string): void => {
-      if (visited.has(nodeId)) return;
-      visited.add(nodeId);
+  /**
+   * Widget por onde se entra no node: nodes com loop de nova tentativa começam pelo reset
+   * do contador, para que uma nova visita (ex.: "voltar ao menu") tenha todas as tentativas.
+   */
+  private getEntryWidgetName(nodeId: string): string {
+    const node = this.nodeMap.get(nodeId);
+    const widgetName = this.getWidgetName(nodeId);
+    return node && this.hasRetryLoop(node) ? `${widgetName}_retry_reset` : widgetName;
+  }
 
-      const node = this.nodeMap.get(nodeId);
-      if (!node) return;
+  private getLocaleEntryWidgetName(locale: string): string {
+    const currentSuffix = this.widgetSuffix;
+    this.widgetSuffix = this.getLocaleSuffix(locale);
+    const entryWidgetName = this.getEntryWidgetName(this.startNodeId);
+    this.widgetSuffix = currentSuffix;
+    return entryWidgetName;
+  }
 
-      if (node.buttons) {
-        for (const btn of node.buttons) {
-          walk(btn.nextNodeId);
-        }
-        return;
-      }
+  private hasRetryLoop(node: FlowNode): boolean {
+    if (node.type === 'question') return Boolean(node.validation);
+    if (node.type !== 'buttons' || !node.buttons?.length) return false;
+    if (getReplyButtons(node).length === 0) return false;
+    return (node.noMatchRetries ?? DEFAULT_NO_MATCH_RETRIES) > 0;
+  }
 
-      if (node.nextNodeId) {
-        walk(node.nextNodeId);
-      }
-    };
+  private resolveOptionalNextWidgetName(fromNodeId: string, toNodeId?: string): string | undefined {
+    return toNodeId ? this.resolveNextWidgetName(fromNodeId, toNodeId) : undefined;
+  }
 
-    walk(startNodeId);
-    return visited;
+  private getReachableNodes(startNodeId: string): Set<string> {
+    return getReachableNodeIds(this.nodeMap, startNodeId);
   }
 
   private getButtonsSplitY(node: FlowNode, nodePosition: { x: number; y: number }): number {
     const desired = nodePosition.y + LAYOUT.SPLIT_Y_OFFSET;
 
     const childYs: number[] = [];
-    if (node.buttons) {
-      for (const btn of node.buttons) {
-        const childPos = this.getNodePosition(btn.nextNodeId);
-        if (Number.isFinite(childPos.y)) {
-          childYs.push(childPos.y);
-        }
+    for (const btn of getReplyButtons(node)) {
+      if (!btn.nextNodeId) continue;
+      const childPos = this.getNodePosition(btn.nextNodeId);
+      if (Number.isFinite(childPos.y)) {
+        childYs.push(childPos.y);
       }
     }
 
@@ -477,17 +667,113 @@ export class FlowBuilder {
       properties.message_type = 'content_template';
       properties.content_sid = node.contentTemplateSid;
       properties.content_template_sid = node.contentTemplateSid;
-      properties.body = node.content;
+      properties.content_variables = this.buildContentVariables(node);
+      properties.body = this.resolvePlaceholders(node.content);
+    } else {
+      properties.message_type = 'custom';
+      properties.body = this.resolvePlaceholders(this.inlineContentVariables(node, node.content));
+    }
+
+    this.widgets.push({
+      name: widgetName,
+      type: 'send-message',
+      properties,
+      transitions: [
+        { event: 'sent', next: nextWidget },
+        {
+          event: 'failed',
+          next: this.resolveOptionalNextWidgetName(node.id, node.onFailureNodeId),
+        },
+      ],
+    });
+  }
+
+  private createMediaWidget(node: FlowNode): void {
+    const widgetName = this.getWidgetName(node.id);
+    const position = this.getNodePosition(node.id);
+    const urls = (node.media?.urls ?? []).map((url) => this.resolvePlaceholders(url));
+
+    const properties: TwilioWidgetProperties = {
+      offset: position,
+      from: '{{flow.variables.address}}',
+      to: '{{contact.channel.address}}',
+      service: '{{trigger.message.InstanceSid}}',
+      channel: '{{trigger.message.ChannelSid}}',
+      attributes: '{\n"is_bot": "Mensagem do bot"\n}',
+    };
+
+    // Sem Content Template (ex.: preview), envia a primeira mídia direto pelo media_url
+    if (node.contentTemplateSid) {
+      properties.message_type = 'content_template';
+      properties.content_sid = node.contentTemplateSid;
+      properties.content_template_sid = node.contentTemplateSid;
+      properties.content_variables = this.buildContentVariables(node);
+      properties.body = this.resolvePlaceholders(node.content);
     } else {
       properties.message_type = 'custom';
-      properties.body = node.content;
+      properties.media_url = urls[0];
+      properties.body = this.resolvePlaceholders(this.inlineContentVariables(node, node.content));
     }
 
     this.widgets.push({
       name: widgetName,
       type: 'send-message',
       properties,
-      transitions: [{ event: 'sent', next: nextWidget }, { event: 'failed' }],
+      transitions: [
+        { event: 'sent', next: this.resolveOptionalNextWidgetName(node.id, node.nextNodeId) },
+        {
+          event: 'failed',
+          next: this.resolveOptionalNextWidgetName(node.id, node.onFailureNodeId),
+        },
+      ],
+    });
+  }
+
+  /**
+   * Envia a despedida (opcional), fecha a Conversation via API e encerra a execução:
+   * as transições do fechamento não têm destino, então o Studio finaliza ali.
+   */
+  private createEndWidget(node: FlowNode): void {
+    const widgetName = this.getWidgetName(node.id);
+    const position = this.getNodePosition(node.id);
+    const hasGoodbye = node.content.trim().length > 0;
+    const closeWidgetName = hasGoodbye ? `${widgetName}_close` : widgetName;
+
+    if (hasGoodbye) {
+      this.widgets.push({
+        name: widgetName,
+        type: 'send-message',
+        properties: {
+          offset: position,
+          from: '{{flow.variables.address}}',
+          to: '{{contact.channel.address}}',
+          service: '{{trigger.message.InstanceSid}}',
+          channel: '{{trigger.message.ChannelSid}}',
+          attributes: '{\n"is_bot": "Mensagem do bot"\n}',
+          message_type: 'custom',
+          body: this.resolvePlaceholders(node.content),
+        },
+        transitions: [
+          { event: 'sent', next: closeWidgetName },
+          { event: 'failed', next: closeWidgetName },
+        ],
+      });
+    }
+
+    this.widgets.push({
+      name: closeWidgetName,
+      type: 'make-http-request',
+      properties: {
+        offset: hasGoodbye
+          ? { x: position.x, y: position.y + LAYOUT.SAVE_ANSWER_Y_OFFSET }
+          : position,
+        method: 'POST',
+        content_type: 'application/x-www-form-urlencoded;charset=utf-8',
+        add_twilio_auth: true,
+        url: CLOSE_CONVERSATION_URL,
+        parameters: [{ key: 'State', value: 'closed' }],
+      },
+      transitions: [{ event: 'success' }, { event: 'failed' }],
     });
   }
 
@@ -513,18 +799,204 @@ export class FlowBuilder {
       properties.message_type = 'content_template';
       properties.content_sid = node.contentTemplateSid;
       properties.content_template_sid = node.contentTemplateSid;
-      properties.body = node.content;
+      properties.content_variables = this.buildContentVariables(node);
+      properties.body = this.resolvePlaceholders(node.content);
     } else {
       properties.message_type = 'custom';
-      properties.body = node.content;
+      properties.body = this.resolvePlaceholders(this.inlineContentVariables(node, node.content));
     }
 
+    const validateWidgetName = `${widgetName}_validate`;
+    const saveWidgetName = `${widgetName}_save`;
+    const afterAnswerWidget = node.saveAs ? saveWidgetName : nextWidget;
+
     this.widgets.push({
       name: widgetName,
       type: 'send-and-wait-for-reply',
       properties,
-      transitions: [{ event: 'incomingMessage', next: nextWidget }, { event: 'deliveryFailure' }],
+      transitions: [
+        {
+          event: 'incomingMessage',
+          next: node.validation ? validateWidgetName : afterAnswerWidget,
+        },
+        {
+          event: 'timeout',
+          next: this.resolveOptionalNextWidgetName(node.id, node.onTimeoutNodeId),
+        },
+        {
+          event: 'deliveryFailure',
+          next: this.resolveOptionalNextWidgetName(node.id, node.onFailureNodeId),
+        },
+      ],
+    });
+
+    if (node.validation) {
+      const validation = node.validation;
+      const exhaustedWidget = validation.exhaustedNodeId
+        ? this.resolveNextWidgetName(node.id, validation.exhaustedNodeId)
+        : undefined;
+
+      // Resposta inválida: conta a tentativa, avisa o cliente e pergunta novamente
+      const retryWidgetName = this.createRetryLoop({
+        baseName: widgetName,
+        position,
+        askWidgetName: widgetName,
+        maxRetries: validation.maxRetries ?? DEFAULT_MAX_RETRIES,
+        errorMessage: validation.errorMessage || DEFAULT_VALIDATION_ERROR_MESSAGE,
+        exhaustedWidget,
+      });
+
+      const input = `{{widgets.${widgetName}.inbound.Body}}`;
+      const pattern =
+        validation.type === 'regex'
+          ? validation.pattern || ''
+          : QUESTION_VALIDATOR_PATTERNS[validation.type];
+
+      this.widgets.push({
+        name: validateWidgetName,
+        type: 'split-based-on',
+        properties: {
+          offset: {
+            x: position.x,
+            y: position.y + LAYOUT.MIN_MESSAGE_TO_SPLIT_GAP,
+          },
+          input,
+        },
+        transitions: [
+          {
+            event: 'match',
+            conditions: [
+              {
+                type: 'regex',
+                friendly_name: `If value is a valid ${validation.type}`,
+                value: pattern,
+                arguments: [input],
+              },
+            ],
+            next: afterAnswerWidget,
+          },
+          { event: 'noMatch', next: retryWidgetName },
+        ],
+      });
+    }
+
+    if (node.saveAs) {
+      // Guarda a resposta em flow.variables.<saveAs> antes de seguir
+      const saveY = node.validation
+        ? position.y + LAYOUT.MIN_MESSAGE_TO_SPLIT_GAP + LAYOUT.SAVE_ANSWER_Y_OFFSET
+        : position.y + LAYOUT.SAVE_ANSWER_Y_OFFSET;
+
+      this.widgets.push({
+        name: saveWidgetName,
+        type: 'set-variables',
+        properties: {
+          offset: {
+            x: position.x,
+            y: saveY,
+          },
+          variables: [
+            {
+              type: 'string',
+              value: `{{widgets.${widgetName}.inbound.Body}}`,
+              key: node.saveAs,
+            },
+          ],
+        },
+        transitions: [{ event: 'next', next: nextWidget }],
+      });
+    }
+  }
+
+  /**
+   * Cria o loop de nova tentativa: incrementa um contador em flow.variables,
+   * segue para `exhaustedWidget` quando passar de `maxRetries` e, caso contrário,
+   * envia `errorMessage` e volta para `askWidgetName`. O contador é zerado pelo
+   * `<baseName>_retry_reset`, entrada do node (ver getEntryWidgetName).
+   * Retorna o nome do widget de entrada do loop.
+   */
+  private createRetryLoop(options: {
+    baseName: string;
+    position: { x: number; y: number };
+    askWidgetName: string;
+    maxRetries: number;
+    errorMessage: string;
+    exhaustedWidget?: string;
+  }): string {
+    const counterWidgetName = `${options.baseName}_retry`;
+    const checkWidgetName = `${options.baseName}_retry_check`;
+    const errorWidgetName = `${options.baseName}_retry_message`;
+    const counterKey = `${options.baseName}_retries`;
+    const counterInput = `{{flow.variables.${counterKey}}}`;
+    const x = options.position.x + LAYOUT.RETRY_X_OFFSET;
+    const y = options.position.y;
+
+    this.widgets.push({
+      name: `${options.baseName}_retry_reset`,
+      type: 'set-variables',
+      properties: {
+        offset: { x, y: y - LAYOUT.RETRY_RESET_Y_OFFSET },
+        variables: [{ type: 'string', value: '0', key: counterKey }],
+      },
+      transitions: [{ event: 'next', next: options.askWidgetName }],
+    });
+
+    this.widgets.push({
+      name: counterWidgetName,
+      type: 'set-variables',
+      properties: {
+        offset: { x, y: y + LAYOUT.MIN_MESSAGE_TO_SPLIT_GAP },
+        variables: [
+          {
+            type: 'string',
+            value: `{{flow.variables.${counterKey} | default: 0 | plus: 1}}`,
+            key: counterKey,
+          },
+        ],
+      },
+      transitions: [{ event: 'next', next: checkWidgetName }],
+    });
+
+    this.widgets.push({
+      name: checkWidgetName,
+      type: 'split-based-on',
+      properties: {
+        offset: { x, y: y + LAYOUT.SPLIT_Y_OFFSET },
+        input: counterInput,
+      },
+      transitions: [
+        {
+          event: 'match',
+          conditions: [
+            {
+              type: 'greater_than',
+              friendly_name: `If retries greater_than ${options.maxRetries}`,
+              value: String(options.maxRetries),
+              arguments: [counterInput],
+            },
+          ],
+          next: options.exhaustedWidget,
+        },
+        { event: 'noMatch', next: errorWidgetName },
+      ],
     });
+
+    this.widgets.push({
+      name: errorWidgetName,
+      type: 'send-message',
+      properties: {
+        offset: { x: x + LAYOUT.RETRY_X_OFFSET, y: y + LAYOUT.SPLIT_Y_OFFSET },
+        from: '{{flow.variables.address}}',
+        to: '{{contact.channel.address}}',
+        service: '{{trigger.message.InstanceSid}}',
+        channel: '{{trigger.message.ChannelSid}}',
+        attributes: '{\n"is_bot": "Mensagem do bot"\n}',
+        message_type: 'custom',
+        body: this.resolvePlaceholders(options.errorMessage),
+      },
+      transitions: [{ event: 'sent', next: options.askWidgetName }, { event: 'failed' }],
+    });
+
+    return counterWidgetName;
   }
 
   private createButtonsWidget(node: FlowNode): void {
@@ -533,6 +1005,17 @@ export class FlowBuilder {
       return;
     }
 
+    // Só botões url/phone (call-to-action): não há resposta a esperar, segue por nextNodeId
+    const replyButtons = getReplyButtons(node);
+    if (replyButtons.length === 0) {
+      this.createMessageWidget(
+        node.contentTemplateSid
+          ? node
+          : { ...node, content: `${node.content}\n\n${this.formatButtonsAsText(node.buttons)}` },
+      );
+      return;
+    }
+
     const messageWidgetName = this.getWidgetName(node.id);
     const splitWidgetName = `${messageWidgetName}_split`;
     const setResponseWidgetName = `${messageWidgetName}_set_response`;
@@ -540,6 +1023,10 @@ export class FlowBuilder {
 
     // Verificar se usa Content Template (botões interativos)
     const usesContentTemplate = Boolean(node.contentTemplateSid);
+    // Canais sem list-picker/card recebem o menu numerado do twilio/text e respondem em texto
+    const templateType = getButtonsTemplateType(node.buttons, Boolean(node.media?.urls.length));
+    const acceptsTypedReply =
+      usesContentTemplate && (templateType === 'list-picker' || templateType === 'card');
 
     const properties: TwilioWidgetProperties = {
       offset: position,
@@ -556,12 +1043,14 @@ export class FlowBuilder {
       properties.message_type = 'content_template';
       properties.content_sid = node.contentTemplateSid;
       properties.content_template_sid = node.contentTemplateSid;
-      properties.body = node.content;
+      properties.content_variables = this.buildContentVariables(node);
+      properties.body = this.resolvePlaceholders(node.content);
     } else {
       // Fallback: mensagem com opções numeradas
       properties.message_type = 'custom';
       const buttonText = this.formatButtonsAsText(node.buttons);
-      properties.body = `${node.content}\n\n${buttonText}`;
+      const body = this.inlineContentVariables(node, node.content);
+      properties.body = this.resolvePlaceholders(`${body}\n\n${buttonText}`);
     }
 
     // Widget de mensagem com espera de resposta
@@ -574,15 +1063,39 @@ export class FlowBuilder {
           event: 'incomingMessage',
           next: usesContentTemplate ? setResponseWidgetName : splitWidgetName,
         },
-        { event: 'deliveryFailure' },
+        {
+          event: 'timeout',
+          next: this.resolveOptionalNextWidgetName(node.id, node.onTimeoutNodeId),
+        },
+        {
+          event: 'deliveryFailure',
+          next: this.resolveOptionalNextWidgetName(node.id, node.onFailureNodeId),
+        },
       ],
     });
 
+    // Opção inválida: pergunta novamente N vezes e depois segue para onNoMatchNodeId
+    const noMatchWidget = this.resolveOptionalNextWidgetName(node.id, node.onNoMatchNodeId);
+    const noMatchRetries = node.noMatchRetries ?? DEFAULT_NO_MATCH_RETRIES;
+    const noMatchTarget =
+      noMatchRetries > 0
+        ? this.createRetryLoop({
+            baseName: messageWidgetName,
+            position,
+            askWidgetName: messageWidgetName,
+            maxRetries: noMatchRetries,
+            errorMessage: DEFAULT_NO_MATCH_MESSAGE,
+            exhaustedWidget: noMatchWidget,
+          })
+        : noMatchWidget;
+
     // Widget de split para avaliar resposta
     const splitTransitions = this.createButtonSplitTransitions(
       node.id,
-      node.buttons,
+      replyButtons,
       usesContentTemplate,
+      noMatchTarget,
+      acceptsTypedReply,
     );
 
     const splitY = this.getButtonsSplitY(node, position);
@@ -617,10 +1130,12 @@ export class FlowBuilder {
           x: position.x + LAYOUT.SPLIT_X_OFFSET,
           y: splitY,
         },
-        // Se usa Content Template, ler ButtonPayload; senão, ler Body
-        input: usesContentTemplate
-          ? '{{flow.variables.response_id.content_response}}'
-          : `{{widgets.${messageWidgetName}.inbound.Body}}`,
+        // Se usa Content Template, ler ButtonPayload (ou o Body digitado); senão, ler Body
+        input: acceptsTypedReply
+          ? `{{flow.variables.response_id.content_response | default: widgets.${messageWidgetName}.inbound.Body}}`
+          : usesContentTemplate
+            ? '{{flow.variables.response_id.content_response}}'
+            : `{{widgets.${messageWidgetName}.inbound.Body}}`,
       },
       transitions: splitTransitions,
     });
@@ -634,19 +1149,23 @@ export class FlowBuilder {
     const attributes: Record<string, string> = {
       type: 'inbound',
       name: '{{trigger.message.ChannelAttributes.from}}',
-      ...config.attributes,
     };
 
+    for (const [key, value] of Object.entries(config.attributes || {})) {
+      attributes[key] = this.resolvePlaceholders(value);
+    }
+
+    const failureWidget = this.resolveOptionalNextWidgetName(node.id, node.onFailureNodeId);
     const transitions: TwilioTransition[] = [
       { event: 'callComplete' },
-      { event: 'failedToEnqueue' },
-      { event: 'callFailure' },
+      { event: 'failedToEnqueue', next: failureWidget },
+      { event: 'callFailure', next: failureWidget },
     ];
 
     const baseProperties: TwilioWidgetProperties = {
       offset: position,
-      workflow: config.workflowSid || 'WW00000000000000000000000000000000',
-      channel: config.channelSid || 'TC00000000000000000000000000000000',
+      workflow: config.workflowSid || PLACEHOLDER_WORKFLOW_SID,
+      channel: config.channelSid || PLACEHOLDER_TASK_CHANNEL_SID,
       attributes: JSON.stringify(attributes),
       priority: String(config.priority || 0),
       timeout: String(config.timeout || 86400),
@@ -689,14 +1208,323 @@ export class FlowBuilder {
     }
   }
 
+  private createConditionWidget(node: FlowNode): void {
+    const widgetName = this.getWidgetName(node.id);
+    const position = this.getNodePosition(node.id);
+    const config = node.condition;
+    const input = this.getConditionInput(node);
+
+    const transitions: TwilioTransition[] = [];
+
+    for (const rule of config?.rules || []) {
+      transitions.push({
+        event: 'match',
+        conditions: [this.createConditionRule(rule, input)],
+        next: this.resolveNextWidgetName(node.id, rule.nextNodeId),
+      });
+    }
+
+    // Nenhuma regra atendida: segue pelo ramo "else" (se houver)
+    transitions.push({
+      event: 'noMatch',
+      next: config?.elseNodeId ? this.resolveNextWidgetName(node.id, config.elseNodeId) : undefined,
+    });
+
+    this.widgets.push({
+      name: widgetName,
+      type: 'split-based-on',
+      properties: {
+        offset: position,
+        input,
+      },
+      transitions,
+    });
+  }
+
+  private getConditionInput(node: FlowNode): string {
+    const config = node.condition;
+
+    if (config?.sourceNodeId) {
+      return `{{widgets.${this.getWidgetName(config.sourceNodeId)}.inbound.Body}}`;
+    }
+
+    return `{{flow.variables.${config?.variable || ''}}}`;
+  }
+
+  private createConditionRule(rule: ConditionRule, input: string): TwilioCondition {
+    const type = CONDITION_OPERATOR_TYPES[rule.operator];
+
+    // is_blank / is_not_blank não recebem valor de comparação
+    if (rule.operator === 'is_empty' || rule.operator === 'is_not_empty') {
+      return {
+        type,
+        friendly_name: `If value ${type}`,
+        value: type === 'is_blank' ? 'Is Blank' : 'Is Not Blank',
+        arguments: [input],
+      };
+    }
+
+    const value = rule.value ?? '';
+
+    return {
+      type,
+      friendly_name: `If value ${type} ${value}`,
+      value,
+      arguments: [input],
+    };
+  }
+
+  private createHttpRequestWidget(node: FlowNode): void {
+    const widgetName = this.getWidgetName(node.id);
+    const position = this.getNodePosition(node.id);
+    const config = node.http;
+    const contentType = config?.contentType || 'application/json';
+
+    const properties: TwilioWidgetProperties = {
+      offset: position,
+      method: config?.method || 'GET',
+      content_type: `${contentType};charset=utf-8`,
+      add_twilio_auth: false,
+      url: this.resolvePlaceholders(config?.url || ''),
+    };
+
+    if (config?.headers && Object.keys(config.headers).length > 0) {
+      properties.headers = Object.entries(config.headers).map(([key, value]) => ({
+        key,
+        value: this.resolvePlaceholders(value),
+      }));
+    }
+
+    if (config?.body) {
+      if (contentType === 'application/x-www-form-urlencoded') {
+        properties.parameters = this.parseFormBody(config.body);
+      } else {
+        properties.body = this.resolvePlaceholders(config.body);
+      }
+    }
+
+    const successWidget = node.nextNodeId
+      ? this.resolveNextWidgetName(node.id, node.nextNodeId)
+      : undefined;
+    const failedWidget = config?.failedNodeId
+      ? this.resolveNextWidgetName(node.id, config.failedNodeId)
+      : undefined;
+
+    this.widgets.push({
+      name: widgetName,
+      type: 'make-http-request',
+      properties,
+      transitions: [
+        { event: 'success', next: successWidget },
+        { event: 'failed', next: failedWidget },
+      ],
+    });
+  }
+
+  /**
+   * Studio não tem widget de horário: calcula data/hora local via Liquid em um
+   * set-variables e compara com as janelas do horário em um split-based-on.
+   * Janelas e feriados são fixados na publicação: alterar o horário exige republicar o flow.
+   */
+  private createHoursWidget(node: FlowNode): void {
+    const widgetName = this.getWidgetName(node.id);
+    const checkWidgetName = `${widgetName}_check`;
+    const position = this.getNodePosition(node.id);
+    const schedule = node.hours ? this.context.schedules?.get(node.hours.scheduleId) : undefined;
+
+    const openWidget = node.nextNodeId
+      ? this.resolveNextWidgetName(node.id, node.nextNodeId)
+      : undefined;
+    const closedWidget = this.resolveOptionalNextWidgetName(node.id, node.hours?.closedNodeId);
+
+    const now = this.context.now ?? new Date();
+    const dateKey = `${widgetName}_date`;
+    const timeKey = `${widgetName}_time`;
+    const dateInput = `{{flow.variables.${dateKey}}}`;
+    const timeInput = `{{flow.variables.${timeKey}}}`;
+
+    this.widgets.push({
+      name: widgetName,
+      type: 'set-variables',
+      properties: {
+        offset: position,
+        variables: [
+          {
+            type: 'string',
+            value: buildLocalTimeLiquid(schedule?.timezone, now, '%Y-%m-%d'),
+            key: dateKey,
+          },
+          // Dia da semana + hora local: segunda 08:30 -> "10830"
+          {
+            type: 'string',
+            value: buildLocalTimeLiquid(schedule?.timezone, now, '%w%H%M'),
+            key: timeKey,
+          },
+        ],
+      },
+      transitions: [{ event: 'next', next: checkWidgetName }],
+    });
+
+    const transitions: TwilioTransition[] = [];
+
+    if (schedule && schedule.holidays.length > 0) {
+      transitions.push({
+        event: 'match',
+        conditions: [
+          {
+            type: 'matches_any_of',
+            friendly_name: 'If today is a holiday',
+            value: schedule.holidays.join(', '),
+            arguments: [dateInput],
+          },
+        ],
+        next: closedWidget,
+      });
+    }
+
+    for (const window of schedule?.windows || []) {
+      const start = window.day * 10000 + timeToNumber(window.start);
+      const end = window.day * 10000 + timeToNumber(window.end);
+
+      transitions.push({
+        event: 'match',
+        conditions: [
+          {
+            type: 'greater_than',
+            friendly_name: `If after ${window.start} (day ${window.day})`,
+            value: String(start - 1),
+            arguments: [timeInput],
+          },
+          {
+            type: 'less_than',
+            friendly_name: `If before ${window.end} (day ${window.day})`,
+            value: String(end),
+            arguments: [timeInput],
+          },
+        ],
+        next: openWidget,
+      });
+    }
+
+    // Fora de todas as janelas: fechado
+    transitions.push({ event: 'noMatch', next: closedWidget });
+
+    this.widgets.push({
+      name: checkWidgetName,
+      type: 'split-based-on',
+      properties: {
+        offset: {
+          x: position.x,
+          y: position.y + LAYOUT.MIN_MESSAGE_TO_SPLIT_GAP,
+        },
+        input: timeInput,
+      },
+      transitions,
+    });
+  }
+
+  private createSubflowWidget(node: FlowNode): void {
+    const widgetName = this.getWidgetName(node.id);
+    const position = this.getNodePosition(node.id);
+    const flowId = node.subflow?.flowId || '';
+
+    this.widgets.push({
+      name: widgetName,
+      type: 'run-subflow',
+      properties: {
+        offset: position,
+        flow_sid: this.context.subflowSids?.get(flowId) || PLACEHOLDER_FLOW_SID,
+        flow_revision: 'LatestPublished',
+        // O subflow recebe o idioma detectado em flow.data.locale
+        parameters: this.isMultiLocale() ? [{ key: 'locale', value: LOCALE_INPUT }] : [],
+      },
+      transitions: [
+        {
+          event: 'completed',
+          next: this.resolveOptionalNextWidgetName(node.id, node.nextNodeId),
+        },
+        {
+          event: 'failed',
+          next: this.resolveOptionalNextWidgetName(node.id, node.subflow?.failedNodeId),
+        },
+      ],
+    });
+  }
+
+  // "a=1&b={{http.x.y}}" -> [{ key: 'a', value: '1' }, ...] (sem decode, para preservar o Liquid)
+  private parseFormBody(body: string): Array<{ key: string; value: string }> {
+    return body
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf('=');
+        const key = separator >= 0 ? pair.slice(0, separator) : pair;
+        const value = separator >= 0 ? pair.slice(separator + 1) : '';
+        return { key, value: this.resolvePlaceholders(value) };
+      });
+  }
+
+  /**
+   * Traduz os placeholders do modelo simplificado para expressões Liquid do Studio:
+   * - {{http.<nodeId>.<campo>}} -> {{widgets.<widget>.parsed.<campo>}}
+   * - {{http.<nodeId>}} -> {{widgets.<widget>.body}}
+   * - {{var.<nome>}} -> {{flow.variables.<nome>}}
+   */
+  private resolvePlaceholders(text: string): string {
+    return text
+      .replace(HTTP_PLACEHOLDER_PATTERN, (_match, nodeId: string, path: string) => {
+        const widgetName = this.getWidgetName(nodeId);
+        return path ? `{{widgets.${widgetName}.parsed${path}` : `{{widgets.${widgetName}.body`;
+      })
+      .replace(VARIABLE_PLACEHOLDER_PATTERN, '{{flow.variables.$1');
+  }
+
+  private getContentVariableExpression(binding: ContentVariableBinding): string {
+    return binding.source === 'trigger'
+      ? `{{trigger.${binding.path}}}`
+      : `{{flow.variables.${binding.path}}}`;
+  }
+
+  /**
+   * content_variables do widget: JSON com placeholder -> expressão Liquid, avaliada pelo
+   * Studio no envio. undefined quando o node não declara variáveis.
+   */
+  private buildContentVariables(node: FlowNode): string | undefined {
+    const entries = Object.entries(node.contentVariables ?? {});
+    if (entries.length === 0) return undefined;
+
+    return JSON.stringify(
+      Object.fromEntries(
+        entries.map(([key, binding]) => [key, this.getContentVariableExpression(binding)]),
+      ),
+    );
+  }
+
+  // Sem Content Template (fallback/preview), os {{n}} viram as expressões Liquid no corpo
+  private inlineContentVariables(node: FlowNode, text: string): string {
+    const bindings = node.contentVariables;
+    if (!bindings) return text;
+
+    return text.replace(CONTENT_VARIABLE_PATTERN, (match, key: string) => {
+      const binding = bindings[key];
+      return binding ? this.getContentVariableExpression(binding) : match;
+    });
+  }
+
+  // Respostas numeradas (mesmo índice do split) e agrupadas por seção; url/phone com o link/número
   private formatButtonsAsText(buttons: FlowButton[]): string {
-    return buttons.map((btn, index) => `${index + 1}. ${btn.label}`).join('\n');
+    const actions = buttons
+      .filter((btn) => !isReplyButton(btn))
+      .map((btn) => `${btn.label}: ${btn.value}`);
+    return [formatMenuAsText(buttons), ...actions].filter(Boolean).join('\n');
   }
 
   private createButtonSplitTransitions(
     fromNodeId: string,
     buttons: FlowButton[],
     usesContentTemplate: boolean,
+    noMatchWidget?: string,
+    acceptsTypedReply = false,
   ): TwilioTransition[] {
     const transitions: TwilioTransition[] = [];
 
@@ -704,9 +1532,25 @@ export class FlowBuilder {
       const button = buttons[i];
       if (!button) continue;
 
-      const nextWidget = this.resolveNextWidgetName(fromNodeId, button.nextNodeId);
+      const nextWidget = this.resolveOptionalNextWidgetName(fromNodeId, button.nextNodeId);
+
+      if (usesContentTemplate && acceptsTypedReply) {
+        // List-picker/card: id do botão ou, no menu em texto, número, valor ou label
+        const uniqueValues = [...new Set([button.id, ...getButtonMatchValues(button, i)])];
 
-      if (usesContentTemplate) {
+        transitions.push({
+          event: 'match',
+          conditions: [
+            {
+              type: 'matches_any_of',
+              friendly_name: button.label,
+              value: uniqueValues.join(','),
+              arguments: uniqueValues,
+            },
+          ],
+          next: nextWidget,
+        });
+      } else if (usesContentTemplate) {
         // Para Content Templates, usar equal_to com o id do botão (ButtonPayload retorna o id)
         transitions.push({
           event: 'match',
@@ -722,8 +1566,7 @@ export class FlowBuilder {
         });
       } else {
         // Para texto, aceitar número, valor ou label com matches_any_of
-        const matchValues = [String(i + 1), button.value.toLowerCase(), button.label.toLowerCase()];
-        const uniqueValues = [...new Set(matchValues.filter(Boolean))];
+        const uniqueValues = getButtonMatchValues(button, i);
 
         transitions.push({
           event: 'match',
@@ -741,7 +1584,7 @@ export class FlowBuilder {
     }
 
     // Opção inválida volta para perguntar novamente
-    transitions.push({ event: 'noMatch' });
+    transitions.push({ event: 'noMatch', next: noMatchWidget });
 
     return transitions;
   }
@@ -766,7 +1609,7 @@ export class FlowBuilder {
   }
 
   private getWidgetName(nodeId: string): string {
-    return nodeId.replace(/[^a-zA-Z0-9_]/g, '_');
+    return `${nodeId.replace(/[^a-zA-Z0-9_]/g, '_')}${this.widgetSuffix}`;
   }
 }
 
@@ -0,0 +1,38 @@
+import { stripTemplateSids } from './flows.locales';
+import type { Flow, FlowBundle } from './flows.types';
+
+export const FLOW_BUNDLE_FORMAT = 'twilio-services.flow';
+export const FLOW_BUNDLE_VERSION = 1;
+
+/**
+ * Gera o bundle portátil de um flow. Os nodes já levam o texto, botões e mídias dos
+ * templates; os SIDs de Content Template (de qualquer tipo de node) são da conta de origem
+ * e saem do bundle, então o próximo publish no destino recria os templates.
+ */
+export function createFlowBundle(flow: Flow): FlowBundle {
+  return {
+    format: FLOW_BUNDLE_FORMAT,
+    version: FLOW_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    flow: {
+      id: flow.id,
+      name: flow.name,
+      description: flow.description,
+      startNodeId: flow.start_node_id,
+      defaultLocale: flow.default_locale,
+      nodes: flow.nodes.map(stripTemplateSids),
+    },
+  };
+}
+
+export function assertFlowBundle(bundle: FlowBundle): void {
+  if (bundle.format !== FLOW_BUNDLE_FORMAT) {
+    throw new Error(`Unsupported bundle format "${bundle.format}"`);
+  }
+
+  if (bundle.version > FLOW_BUNDLE_VERSION) {
+    throw new Error(
+      `Bundle version ${bundle.version} is newer than supported (${FLOW_BUNDLE_VERSION})`,
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import type { types } from 'cassandra-driver';
+import { getClient } from '@/database';
+import type { ContentTemplateRecord } from './flows.types';
+
+export class ContentTemplatesRepository {
+  private get client() {
+    return getClient();
+  }
+
+  // Registro inteiro, paginando pelo driver: a busca de órfãos não pode parar num teto
+  async findAllPages(pageSize = 500): Promise<ContentTemplateRecord[]> {
+    const records: ContentTemplateRecord[] = [];
+    let pageState: string | undefined;
+
+    do {
+      const result = await this.client.execute('SELECT * FROM content_templates', [], {
+        prepare: true,
+        fetchSize: pageSize,
+        pageState,
+      });
+      records.push(...result.rows.map((row) => this.mapRowToRecord(row)));
+      pageState = result.pageState;
+    } while (pageState);
+
+    return records;
+  }
+
+  async findBySid(contentSid: string): Promise<ContentTemplateRecord | null> {
+    const query = 'SELECT * FROM content_templates WHERE content_sid = ?';
+    const result = await this.client.execute(query, [contentSid], { prepare: true });
+    const row = result.rows[0];
+    return row ? this.mapRowToRecord(row) : null;
+  }
+
+  async save(record: ContentTemplateRecord): Promise<void> {
+    const query = `
+      INSERT INTO content_templates (content_sid, cache_key, template_type, template_name, node_id, flow_name, language, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.client.execute(
+      query,
+      [
+        record.content_sid,
+        record.cache_key,
+        record.template_type,
+        record.template_name,
+        record.node_id ?? null,
+        record.flow_name ?? null,
+        record.language ?? null,
+        record.created_at,
+      ],
+      { prepare: true },
+    );
+  }
+
+  async delete(contentSid: string): Promise<void> {
+    const query = 'DELETE FROM content_templates WHERE content_sid = ?';
+    await this.client.execute(query, [contentSid], { prepare: true });
+  }
+
+  private mapRowToRecord(row: types.Row): ContentTemplateRecord {
+    return {
+      content_sid: row.get('content_sid') ?? '',
+      cache_key: row.get('cache_key') ?? '',
+      template_type: row.get('template_type') ?? '',
+      template_name: row.get('template_name') ?? '',
+      node_id: row.get('node_id') ?? undefined,
+      flow_name: row.get('flow_name') ?? undefined,
+      language: row.get('language') ?? undefined,
+      created_at: row.get('created_at') ?? new Date(),
+    };
+  }
+}
+
+export const contentTemplatesRepository = new ContentTemplatesRepository();
@@ -1,4 +1,5 @@
 import { createLogger } from '@/shared/utils/logger';
+import type { WhatsAppApprovalCategory, WhatsAppApprovalStatus } from './flows.types';
 
 const logger = createLogger('TwilioContent');
 
@@ -12,13 +13,125 @@ interface QuickReplyAction {
   title: string;
 }
 
+// Ações de call-to-action / card
+type TemplateAction =
+  | { type: 'QUICK_REPLY'; id: string; title: string }
+  | { type: 'URL'; title: string; url: string }
+  | { type: 'PHONE_NUMBER'; title: string; phone: string };
+
+type TemplateButton = {
+  id: string;
+  label: string;
+  value: string;
+  kind?: 'reply' | 'url' | 'phone';
+  description?: string;
+  section?: string;
+};
+
+export type ButtonsTemplateType = 'quick-reply' | 'list-picker' | 'call-to-action' | 'card';
+
+// Placeholders de variáveis da Content API: {{1}}, {{2}}...
+export const CONTENT_VARIABLE_PATTERN = /\{\{\s*(\d+)\s*\}\}/g;
+
+export function getContentVariableKeys(text: string): string[] {
+  return [...new Set([...text.matchAll(CONTENT_VARIABLE_PATTERN)].map((match) => match[1] ?? ''))];
+}
+
+// Placeholder -> valor de exemplo; sem variáveis a seção é omitida
+type TemplateVariables = Record<string, string>;
+
+function toVariablesSection(variables?: TemplateVariables): TemplateVariables | undefined {
+  return variables && Object.keys(variables).length > 0 ? variables : undefined;
+}
+
+const QUICK_REPLY_MAX_BUTTONS = 3;
+export const LIST_PICKER_MAX_BUTTONS = 10;
+const LIST_PICKER_DESCRIPTION_MAX = 72;
+// Título de botão/item: mesmo limite para quick-reply, list-picker, call-to-action e card
+export const BUTTON_LABEL_MAX = 25;
+
+/**
+ * Menu numerado para canais sem botões: respostas numeradas na ordem do split, com o
+ * cabeçalho da seção sempre que ela muda e a descrição ao lado do label.
+ */
+export function formatMenuAsText(buttons: TemplateButton[]): string {
+  const lines: string[] = [];
+  let section: string | undefined;
+
+  buttons
+    .filter((btn) => (btn.kind ?? 'reply') === 'reply')
+    .forEach((btn, index) => {
+      if (btn.section && btn.section !== section) {
+        if (lines.length > 0) lines.push('');
+        lines.push(`*${btn.section}*`);
+      }
+      section = btn.section;
+
+      const description = btn.description ? ` - ${btn.description}` : '';
+      lines.push(`${index + 1}. ${btn.label}${description}`);
+    });
+
+  return lines.join('\n');
+}
+
+/**
+ * Content type usado para um node de botões: só respostas -> quick-reply / list-picker
+ * (acima de 10 opções o menu é paginado, ver flows.menus); só url/phone -> call-to-action;
+ * mistura (ou mídia no node) -> card. null quando não cabe em nenhum template.
+ */
+export function getButtonsTemplateType(
+  buttons: TemplateButton[],
+  hasMedia = false,
+): ButtonsTemplateType | null {
+  if (buttons.length === 0) return null;
+
+  const replyCount = buttons.filter((btn) => (btn.kind ?? 'reply') === 'reply').length;
+
+  if (hasMedia || (replyCount > 0 && replyCount < buttons.length)) {
+    return buttons.length <= QUICK_REPLY_MAX_BUTTONS ? 'card' : null;
+  }
+
+  if (replyCount === 0) return 'call-to-action';
+  if (buttons.length <= QUICK_REPLY_MAX_BUTTONS) return 'quick-reply';
+  return 'list-picker';
+}
+
+/**
+ * Texto de um template existente: o fallback twilio/text ou, sem ele, o body do primeiro tipo.
+ */
+export function getContentTemplateBody(types: Record<string, unknown>): string {
+  const bodies = [types['twilio/text'], ...Object.values(types)].map((type) => {
+    const body = (type as { body?: unknown } | undefined)?.body;
+    return typeof body === 'string' ? body.trim() : '';
+  });
+  return bodies.find(Boolean) ?? '';
+}
+
+function toTemplateAction(button: TemplateButton): TemplateAction {
+  const title = button.label.substring(0, BUTTON_LABEL_MAX);
+  if (button.kind === 'url') return { type: 'URL', title, url: button.value };
+  if (button.kind === 'phone') return { type: 'PHONE_NUMBER', title, phone: button.value };
+  return { type: 'QUICK_REPLY', id: button.id, title };
+}
+
+// Texto para canais sem suporte a botões: respostas numeradas (mesmo índice do split do
+// builder) e, abaixo delas, links e telefones
+function formatActionsAsText(bodyText: string, buttons: TemplateButton[]): string {
+  const actions = buttons
+    .filter((btn) => btn.kind === 'url' || btn.kind === 'phone')
+    .map((btn) => `${btn.label}: ${btn.value}`);
+  const lines = [formatMenuAsText(buttons), ...actions].filter(Boolean);
+  return lines.length > 0 ? `${bodyText}\n\n${lines.join('\n')}` : bodyText;
+}
+
 interface ContentTemplateRequest {
   friendly_name: string;
   language: string;
+  variables?: TemplateVariables;
   types: Record<string, unknown>;
 }
 
-interface ContentTemplateResponse {
+export interface ContentTemplateResponse {
   sid: string;
   account_sid: string;
   friendly_name: string;
@@ -39,6 +152,24 @@ interface DeleteContentResult {
   error?: string;
 }
 
+interface WhatsAppApprovalResponse {
+  name?: string;
+  category?: WhatsAppApprovalCategory;
+  status?: WhatsAppApprovalStatus;
+  rejection_reason?: string;
+}
+
+interface ApprovalResult {
+  success: boolean;
+  approval?: {
+    status: WhatsAppApprovalStatus;
+    name?: string;
+    category?: WhatsAppApprovalCategory;
+    rejectionReason?: string;
+  };
+  error?: string;
+}
+
 export class TwilioContentClient {
   private config: ContentConfig;
   private baseUrl = 'https://content.twilio.com/v1';
@@ -57,6 +188,30 @@ export class TwilioContentClient {
     return `Basic ${credentials}`;
   }
 
+  /**
+   * Cria um Content Template só com texto
+   */
+  async createTextTemplate(
+    friendlyName: string,
+    bodyText: string,
+    language = 'pt_BR',
+    variables?: TemplateVariables,
+  ): Promise<CreateContentResult> {
+    return this.postTemplate(
+      {
+        friendly_name: friendlyName,
+        language,
+        variables: toVariablesSection(variables),
+        types: {
+          'twilio/text': {
+            body: bodyText,
+          },
+        },
+      },
+      'text',
+    );
+  }
+
   /**
    * Cria um Content Template do tipo quick-reply para botões interativos
    */
@@ -65,6 +220,7 @@ export class TwilioContentClient {
     bodyText: string,
     buttons: Array<{ id: string; label: string; value: string }>,
     language = 'pt_BR',
+    variables?: TemplateVariables,
   ): Promise<CreateContentResult> {
     if (!this.config.accountSid || !this.config.authToken) {
       return {
@@ -90,12 +246,13 @@ export class TwilioContentClient {
 
     const actions: QuickReplyAction[] = buttons.map((btn) => ({
       id: btn.id,
-      title: btn.label.substring(0, 25), // Twilio limita a 25 caracteres
+      title: btn.label.substring(0, BUTTON_LABEL_MAX),
     }));
 
     const requestBody: ContentTemplateRequest = {
       friendly_name: friendlyName,
       language,
+      variables: toVariablesSection(variables),
       types: {
         'twilio/quick-reply': {
           body: bodyText,
@@ -152,8 +309,9 @@ export class TwilioContentClient {
   async createListPickerTemplate(
     friendlyName: string,
     bodyText: string,
-    buttons: Array<{ id: string; label: string; value: string }>,
+    buttons: TemplateButton[],
     language = 'pt_BR',
+    variables?: TemplateVariables,
   ): Promise<CreateContentResult> {
     if (!this.config.accountSid || !this.config.authToken) {
       return {
@@ -162,12 +320,10 @@ export class TwilioContentClient {
       };
     }
 
-    const MAX_ITEMS = 10;
-
-    if (buttons.length > MAX_ITEMS) {
+    if (buttons.length > LIST_PICKER_MAX_BUTTONS) {
       return {
         success: false,
-        error: `List-picker templates support a maximum of ${MAX_ITEMS} items.`,
+        error: `List-picker templates support a maximum of ${LIST_PICKER_MAX_BUTTONS} items.`,
       };
     }
 
@@ -178,16 +334,22 @@ export class TwilioContentClient {
       };
     }
 
+    // O list-picker da Content API não tem seções: os itens seguem agrupados na ordem do
+    // menu e a seção entra no início da descrição
     const items = buttons.map((btn) => ({
       id: btn.id,
-      item: btn.label.substring(0, 24),
-      description: (btn.value || btn.label).substring(0, 72),
+      item: btn.label.substring(0, BUTTON_LABEL_MAX),
+      description: (btn.section || btn.description
+        ? [btn.section, btn.description].filter(Boolean).join(' · ')
+        : btn.value || btn.label
+      ).substring(0, LIST_PICKER_DESCRIPTION_MAX),
       media_url: null,
     }));
 
     const requestBody: ContentTemplateRequest = {
       friendly_name: friendlyName,
       language,
+      variables: toVariablesSection(variables),
       types: {
         'twilio/list-picker': {
           body: bodyText,
@@ -196,7 +358,8 @@ export class TwilioContentClient {
           multiple_selection: null,
         },
         'twilio/text': {
-          body: bodyText,
+          // Menu numerado (com seções) para canais sem list-picker
+          body: `${bodyText}\n\n${formatMenuAsText(buttons)}`,
         },
       },
     };
@@ -243,6 +406,177 @@ export class TwilioContentClient {
     }
   }
 
+  /**
+   * Cria um Content Template twilio/call-to-action (botões que abrem URL ou ligam)
+   */
+  async createCallToActionTemplate(
+    friendlyName: string,
+    bodyText: string,
+    buttons: TemplateButton[],
+    language = 'pt_BR',
+    variables?: TemplateVariables,
+  ): Promise<CreateContentResult> {
+    if (buttons.length === 0 || buttons.some((btn) => (btn.kind ?? 'reply') === 'reply')) {
+      return {
+        success: false,
+        error: 'Call-to-action templates require only URL and phone buttons.',
+      };
+    }
+
+    return this.postTemplate(
+      {
+        friendly_name: friendlyName,
+        language,
+        variables: toVariablesSection(variables),
+        types: {
+          'twilio/call-to-action': {
+            body: bodyText,
+            actions: buttons.map(toTemplateAction),
+          },
+          'twilio/text': {
+            body: formatActionsAsText(bodyText, buttons),
+          },
+        },
+      },
+      'call-to-action',
+    );
+  }
+
+  /**
+   * Cria um Content Template twilio/card (título, mídia opcional e até 3 ações de
+   * resposta, URL ou telefone)
+   */
+  async createCardTemplate(
+    friendlyName: string,
+    title: string,
+    buttons: TemplateButton[],
+    mediaUrls: string[] = [],
+    language = 'pt_BR',
+    variables?: TemplateVariables,
+  ): Promise<CreateContentResult> {
+    if (buttons.length > QUICK_REPLY_MAX_BUTTONS) {
+      return {
+        success: false,
+        error: `Card templates support a maximum of ${QUICK_REPLY_MAX_BUTTONS} actions.`,
+      };
+    }
+
+    return this.postTemplate(
+      {
+        friendly_name: friendlyName,
+        language,
+        variables: toVariablesSection(variables),
+        types: {
+          'twilio/card': {
+            title,
+            media: mediaUrls.length > 0 ? mediaUrls.slice(0, 1) : undefined,
+            actions: buttons.map(toTemplateAction),
+          },
+          'twilio/text': {
+            body: formatActionsAsText(title, buttons),
+          },
+        },
+      },
+      'card',
+    );
+  }
+
+  private async postTemplate(
+    requestBody: ContentTemplateRequest,
+    templateType: string,
+  ): Promise<CreateContentResult> {
+    if (!this.config.accountSid || !this.config.authToken) {
+      return {
+        success: false,
+        error: 'Twilio credentials not configured.',
+      };
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/Content`, {
+        method: 'POST',
+        headers: {
+          Authorization: this.getAuthHeader(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          message?: string;
+        };
+        const errorMessage = errorData.message || `HTTP ${response.status}: ${response.statusText}`;
+        logger.error(`Failed to create ${templateType} template: ${errorMessage}`);
+        logger.error(`Response: ${JSON.stringify(errorData)}`);
+
+        return {
+          success: false,
+          error: errorMessage,
+        };
+      }
+
+      const data = (await response.json()) as ContentTemplateResponse;
+      logger.log(`${templateType} template created successfully. SID: ${data.sid}`);
+
+      return {
+        success: true,
+        contentSid: data.sid,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to create ${templateType} template: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Cria um Content Template do tipo twilio/media (imagem, documento ou áudio com legenda)
+   */
+  async createMediaTemplate(
+    friendlyName: string,
+    caption: string,
+    mediaUrls: string[],
+    language = 'pt_BR',
+    variables?: TemplateVariables,
+  ): Promise<CreateContentResult> {
+    if (mediaUrls.length === 0) {
+      return {
+        success: false,
+        error: 'At least one media URL is required.',
+      };
+    }
+
+    if (mediaUrls.length > 1) {
+      return {
+        success: false,
+        error: 'WhatsApp media templates support a single media URL.',
+      };
+    }
+
+    return this.postTemplate(
+      {
+        friendly_name: friendlyName,
+        language,
+        variables: toVariablesSection(variables),
+        types: {
+          'twilio/media': {
+            body: caption,
+            media: mediaUrls,
+          },
+          'twilio/text': {
+            body: caption || mediaUrls[0], // Fallback para canais sem suporte a mídia
+          },
+        },
+      },
+      'media',
+    );
+  }
+
   /**
    * Deleta um Content Template
    */
@@ -296,6 +630,7 @@ export class TwilioContentClient {
     success: boolean;
     template?: ContentTemplateResponse;
     error?: string;
+    notFound?: boolean;
   }> {
     if (!this.config.accountSid || !this.config.authToken) {
       return {
@@ -321,6 +656,7 @@ export class TwilioContentClient {
         return {
           success: false,
           error: errorMessage,
+          notFound: response.status === 404,
         };
       }
 
@@ -393,6 +729,126 @@ export class TwilioContentClient {
     }
   }
 
+  /**
+   * Envia o template para aprovação do WhatsApp (necessária para mensagens iniciadas pela empresa).
+   * `name` aceita apenas letras minúsculas, números e underscore.
+   */
+  async submitWhatsAppApproval(
+    contentSid: string,
+    name: string,
+    category: WhatsAppApprovalCategory = 'UTILITY',
+  ): Promise<ApprovalResult> {
+    if (!this.config.accountSid || !this.config.authToken) {
+      return {
+        success: false,
+        error: 'Twilio credentials not configured.',
+      };
+    }
+
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/Content/${contentSid}/ApprovalRequests/whatsapp`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: this.getAuthHeader(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ name, category }),
+        },
+      );
+
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          message?: string;
+        };
+        const errorMessage = errorData.message || `HTTP ${response.status}: ${response.statusText}`;
+        logger.error(`Failed to submit WhatsApp approval for ${contentSid}: ${errorMessage}`);
+
+        return {
+          success: false,
+          error: errorMessage,
+        };
+      }
+
+      const data = (await response.json()) as WhatsAppApprovalResponse;
+      logger.log(`WhatsApp approval requested for ${contentSid} (${data.status ?? 'received'})`);
+
+      return {
+        success: true,
+        approval: this.toApproval(data, 'received'),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to submit WhatsApp approval for ${contentSid}: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Consulta o status da aprovação do WhatsApp ('unsubmitted' quando nunca foi enviado)
+   */
+  async getApprovalStatus(contentSid: string): Promise<ApprovalResult> {
+    if (!this.config.accountSid || !this.config.authToken) {
+      return {
+        success: false,
+        error: 'Twilio credentials not configured.',
+      };
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/Content/${contentSid}/ApprovalRequests`, {
+        method: 'GET',
+        headers: {
+          Authorization: this.getAuthHeader(),
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          message?: string;
+        };
+        const errorMessage = errorData.message || `HTTP ${response.status}: ${response.statusText}`;
+
+        return {
+          success: false,
+          error: errorMessage,
+        };
+      }
+
+      const data = (await response.json()) as { whatsapp?: WhatsAppApprovalResponse };
+
+      return {
+        success: true,
+        approval: this.toApproval(data.whatsapp ?? {}, 'unsubmitted'),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  private toApproval(
+    data: WhatsAppApprovalResponse,
+    fallbackStatus: WhatsAppApprovalStatus,
+  ): NonNullable<ApprovalResult['approval']> {
+    return {
+      // Normaliza para minúsculas, formato usado em WhatsAppApprovalStatus
+      status: (data.status?.toLowerCase() as WhatsAppApprovalStatus | undefined) || fallbackStatus,
+      name: data.name || undefined,
+      category: data.category || undefined,
+      rejectionReason: data.rejection_reason || undefined,
+    };
+  }
+
   isConfigured(): boolean {
     return Boolean(this.config.accountSid && this.config.authToken);
   }
@@ -1,7 +1,5 @@
 import { Elysia, t } from 'elysia';
-import { twilioContentClient } from './flows.content';
 import { flowsService } from './flows.service';
-import type { FlowInput, FlowNode } from './flows.types';
 
 // Schema para posição x,y
 const PositionSchema = t.Object({
@@ -9,14 +7,24 @@ const PositionSchema = t.Object({
   y: t.Number(),
 });
 
-// Schema para botão
+const ButtonKindSchema = t.Union([t.Literal('reply'), t.Literal('url'), t.Literal('phone')]);
+
+// Schema para botão (url/phone: value é a URL ou o telefone e não há nextNodeId)
 const ButtonSchema = t.Object({
   id: t.String({ minLength: 1 }),
   label: t.String({ minLength: 1 }),
   value: t.String({ minLength: 1 }),
-  nextNodeId: t.String({ minLength: 1 }),
+  kind: t.Optional(ButtonKindSchema),
+  nextNodeId: t.Optional(t.String({ minLength: 1 })),
+  description: t.Optional(t.String({ maxLength: 72 })), // Linha secundária no list-picker
+  section: t.Optional(t.String({ minLength: 1, maxLength: 24 })),
 });
 
+// SIDs dos templates das páginas 2..n de menus com mais de 10 opções (null = menu em texto)
+const PageTemplateSidsSchema = t.Optional(
+  t.Array(t.Union([t.String({ pattern: '^HX[a-f0-9]{32}$' }), t.Null()])),
+);
+
 // Schema para configuração de transferência
 const TransferConfigSchema = t.Optional(
   t.Object({
@@ -28,6 +36,140 @@ const TransferConfigSchema = t.Optional(
   }),
 );
 
+// Schema para regra do node de condição
+const ConditionRuleSchema = t.Object({
+  id: t.String({ minLength: 1 }),
+  operator: t.Union([
+    t.Literal('equals'),
+    t.Literal('not_equals'),
+    t.Literal('contains'),
+    t.Literal('not_contains'),
+    t.Literal('regex'),
+    t.Literal('greater_than'),
+    t.Literal('less_than'),
+    t.Literal('is_empty'),
+    t.Literal('is_not_empty'),
+  ]),
+  value: t.Optional(t.String()),
+  nextNodeId: t.String({ minLength: 1 }),
+});
+
+// Schema para configuração do node de condição
+const ConditionConfigSchema = t.Optional(
+  t.Object({
+    variable: t.Optional(t.String({ minLength: 1 })),
+    sourceNodeId: t.Optional(t.String({ minLength: 1 })),
+    rules: t.Array(ConditionRuleSchema, { minItems: 1 }),
+    elseNodeId: t.Optional(t.String({ minLength: 1 })),
+  }),
+);
+
+// Schema para configuração do node de requisição HTTP
+const HttpRequestConfigSchema = t.Optional(
+  t.Object({
+    method: t.Union([t.Literal('GET'), t.Literal('POST')]),
+    url: t.String({ minLength: 1 }),
+    headers: t.Optional(t.Record(t.String(), t.String())),
+    body: t.Optional(t.String()),
+    contentType: t.Optional(
+      t.Union([t.Literal('application/json'), t.Literal('application/x-www-form-urlencoded')]),
+    ),
+    failedNodeId: t.Optional(t.String({ minLength: 1 })),
+  }),
+);
+
+// Schema para validação da resposta de um node "question"
+const QuestionValidationSchema = t.Optional(
+  t.Object({
+    type: t.Union([
+      t.Literal('cpf'),
+      t.Literal('email'),
+      t.Literal('phone'),
+      t.Literal('date'),
+      t.Literal('number'),
+      t.Literal('regex'),
+    ]),
+    pattern: t.Optional(t.String({ minLength: 1 })),
+    maxRetries: t.Optional(t.Integer({ minimum: 0, maximum: 10 })),
+    errorMessage: t.Optional(t.String({ minLength: 1 })),
+    exhaustedNodeId: t.Optional(t.String({ minLength: 1 })),
+  }),
+);
+
+// Schema para configuração do node de horário de atendimento
+const HoursConfigSchema = t.Optional(
+  t.Object({
+    scheduleId: t.String({ minLength: 1 }),
+    closedNodeId: t.Optional(t.String({ minLength: 1 })),
+  }),
+);
+
+// Schema para configuração do node de subflow
+const SubflowConfigSchema = t.Optional(
+  t.Object({
+    flowId: t.String({ minLength: 1 }),
+    failedNodeId: t.Optional(t.String({ minLength: 1 })),
+  }),
+);
+
+// Schema para configuração do node de mídia
+const MediaConfigSchema = t.Optional(
+  t.Object({
+    // Uma mídia por node (template twilio/media do WhatsApp e media_url do Studio)
+    urls: t.Array(t.String({ minLength: 1 }), { minItems: 1, maxItems: 1 }),
+  }),
+);
+
+// Locale no formato da Content API (ex.: es, en, pt_BR)
+const LocaleSchema = t.String({ pattern: '^[a-z]{2}(_[A-Z]{2})?$' });
+
+// Categorias aceitas na aprovação de templates do WhatsApp
+const ApprovalCategorySchema = t.Union([
+  t.Literal('UTILITY'),
+  t.Literal('MARKETING'),
+  t.Literal('AUTHENTICATION'),
+]);
+
+// Schema para criação manual de Content Templates
+const ContentTemplateSchema = t.Object({
+  type: t.Union([
+    t.Literal('text'),
+    t.Literal('quick-reply'),
+    t.Literal('list-picker'),
+    t.Literal('media'),
+    t.Literal('card'),
+  ]),
+  friendlyName: t.String({ minLength: 1 }),
+  language: t.Optional(LocaleSchema),
+  body: t.String({ minLength: 1 }),
+  buttons: t.Optional(
+    t.Array(
+      t.Object({
+        id: t.String(),
+        label: t.String({ minLength: 1 }),
+        value: t.String(),
+        kind: t.Optional(ButtonKindSchema),
+      }),
+    ),
+  ),
+  mediaUrls: t.Optional(t.Array(t.String({ minLength: 1 }))),
+});
+
+// Schema para o vínculo de um placeholder {{n}} com dados do flow
+const ContentVariableSchema = t.Object({
+  source: t.Union([t.Literal('variable'), t.Literal('trigger')]),
+  path: t.String({ minLength: 1 }),
+  sample: t.String({ minLength: 1 }),
+});
+
+// Schema para conteúdo traduzido de um node
+const NodeTranslationSchema = t.Object({
+  content: t.Optional(t.String()),
+  buttons: t.Optional(t.Record(t.String(), t.String({ minLength: 1 }))), // id do botão -> label
+  contentTemplateSid: t.Optional(t.String({ pattern: '^HX[a-f0-9]{32}$' })),
+  pageTemplateSids: PageTemplateSidsSchema,
+});
+
 // Schema para node do flow
 const FlowNodeSchema = t.Object({
   id: t.String({ minLength: 1 }),
@@ -36,14 +178,34 @@ const FlowNodeSchema = t.Object({
     t.Literal('question'),
     t.Literal('buttons'),
     t.Literal('transfer'),
+    t.Literal('condition'),
+    t.Literal('http'),
+    t.Literal('hours'),
+    t.Literal('subflow'),
+    t.Literal('media'),
+    t.Literal('end'),
   ]),
   position: PositionSchema,
-  content: t.String({ minLength: 1 }),
+  content: t.String(), // Pode ser vazio em nodes sem mensagem (ex.: end sem despedida)
   buttons: t.Optional(t.Array(ButtonSchema)),
   nextNodeId: t.Optional(t.String()),
   transferConfig: TransferConfigSchema,
+  condition: ConditionConfigSchema,
+  http: HttpRequestConfigSchema,
+  hours: HoursConfigSchema,
+  subflow: SubflowConfigSchema,
+  media: MediaConfigSchema,
+  saveAs: t.Optional(t.String({ pattern: '^[a-zA-Z_][a-zA-Z0-9_]*$' })),
+  validation: QuestionValidationSchema,
+  onTimeoutNodeId: t.Optional(t.String({ minLength: 1 })),
+  onFailureNodeId: t.Optional(t.String({ minLength: 1 })),
+  onNoMatchNodeId: t.Optional(t.String({ minLength: 1 })),
+  noMatchRetries: t.Optional(t.Integer({ minimum: 0, maximum: 10 })),
   timeout: t.Optional(t.Number()),
   contentTemplateSid: t.Optional(t.String({ pattern: '^HX[a-f0-9]{32}$' })), // HX SID para Content Templates
+  pageTemplateSids: PageTemplateSidsSchema,
+  contentVariables: t.Optional(t.Record(t.String(), ContentVariableSchema)), // "1" -> vínculo de {{1}}
+  translations: t.Optional(t.Record(LocaleSchema, NodeTranslationSchema)),
 });
 
 // Schema para criar flow
@@ -52,6 +214,7 @@ const CreateFlowSchema = t.Object({
   description: t.Optional(t.String()),
   nodes: t.Array(FlowNodeSchema, { minItems: 1 }),
   startNodeId: t.String({ minLength: 1 }),
+  defaultLocale: t.Optional(LocaleSchema),
 });
 
 // Simple "menu" flow schema (titulo/mensagem/botoes)
@@ -70,12 +233,28 @@ const CreateMenuFlowSchema = t.Object({
   transferConfig: TransferConfigSchema,
 });
 
+// Schema do bundle portátil (GET /flows/:id/export)
+const FlowBundleSchema = t.Object({
+  format: t.String({ minLength: 1 }),
+  version: t.Integer({ minimum: 1 }),
+  exported_at: t.String(),
+  flow: t.Object({
+    id: t.String({ minLength: 1 }),
+    name: t.String({ minLength: 1 }),
+    description: t.Optional(t.String()),
+    startNodeId: t.String({ minLength: 1 }),
+    defaultLocale: t.Optional(LocaleSchema),
+    nodes: t.Array(FlowNodeSchema, { minItems: 1 }),
+  }),
+});
+
 // Schema para atualizar flow
 const UpdateFlowSchema = t.Object({
   name: t.Optional(t.String({ minLength: 1 })),
   description: t.Optional(t.String()),
   nodes: t.Optional(t.Array(FlowNodeSchema, { minItems: 1 })),
   startNodeId: t.Optional(t.String({ minLength: 1 })),
+  defaultLocale: t.Optional(LocaleSchema),
 });
 
 export const flowsController = new Elysia({ prefix: '/flows' })
@@ -100,18 +279,25 @@ export const flowsController = new Elysia({ prefix: '/flows' })
   // Obter flow por ID
   .get(
     '/:id',
-    async ({ params, set }) => {
+    async ({ params, query, set }) => {
       const flow = await flowsService.getById(params.id);
       if (!flow) {
         set.status = 404;
         return { message: 'Flow not found' };
       }
-      return { data: flow };
+      const templateApprovals = await flowsService.getTemplateApprovals(
+        flow,
+        query.refreshApprovals === 1,
+      );
+      return { data: { ...flow, template_approvals: templateApprovals } };
     },
     {
       params: t.Object({
         id: t.String(),
       }),
+      query: t.Object({
+        refreshApprovals: t.Optional(t.Numeric({ default: 0 })), // 1 = consulta a Content API
+      }),
       detail: {
         summary: 'Get flow by ID',
         tags: ['Flows'],
@@ -124,89 +310,12 @@ export const flowsController = new Elysia({ prefix: '/flows' })
     '/menu',
     async ({ body, set }) => {
       try {
-        const menuNodeId = 'menu';
-
-        const seenButtonIds = new Set<string>();
-        for (const btn of body.botoes) {
-          if (seenButtonIds.has(btn.id)) {
-            throw new Error(`Duplicate button id: "${btn.id}"`);
-          }
-          seenButtonIds.add(btn.id);
+        // O menu é o primeiro template do catálogo (ver flows.templates.ts)
+        const flow = await flowsService.instantiateTemplate('menu', body);
+        if (!flow) {
+          throw new Error('Menu template not found');
         }
 
-        const usedNodeIds = new Set<string>([menuNodeId]);
-        const transferNodeIdsByButtonId = new Map<string, string>();
-
-        const makeSafeId = (prefix: string, raw: string): string => {
-          const base = `${prefix}_${raw}`.replace(/[^a-zA-Z0-9_]/g, '_');
-          let candidate = base;
-          let counter = 1;
-          while (usedNodeIds.has(candidate)) {
-            candidate = `${base}_${counter}`;
-            counter++;
-          }
-          usedNodeIds.add(candidate);
-          return candidate;
-        };
-
-        const transferNodes: FlowNode[] = body.botoes.map((btn) => {
-          const transferNodeId = makeSafeId('transfer', btn.id);
-          transferNodeIdsByButtonId.set(btn.id, transferNodeId);
-
-          const baseConfig = body.transferConfig || {};
-          const mergedAttributes = {
-            ...(baseConfig.attributes || {}),
-            selected_button_id: btn.id,
-            selected_button_value: btn.value,
-            selected_button_label: btn.label,
-          };
-
-          return {
-            id: transferNodeId,
-            type: 'transfer',
-            position: { x: 0, y: 0 },
-            content: 'Transferindo...',
-            transferConfig: {
-              ...baseConfig,
-              priority: baseConfig.priority ?? 1,
-              timeout: baseConfig.timeout ?? 3600,
-              attributes: mergedAttributes,
-            },
-          };
-        });
-
-        const menuButtons = body.botoes.map((btn) => {
-          const nextNodeId = transferNodeIdsByButtonId.get(btn.id);
-          if (!nextNodeId) {
-            throw new Error(`Failed to create transfer node for "${btn.id}"`);
-          }
-          return {
-            id: btn.id,
-            label: btn.label,
-            value: btn.value,
-            nextNodeId,
-          };
-        });
-
-        const input: FlowInput = {
-          name: body.titulo,
-          description: body.descricao,
-          startNodeId: menuNodeId,
-          nodes: [
-            {
-              id: menuNodeId,
-              type: 'buttons',
-              position: { x: 0, y: 0 },
-              content: body.mensagem,
-              buttons: menuButtons,
-              timeout: 3600,
-            } as FlowNode,
-            ...transferNodes,
-          ],
-        };
-
-        const flow = await flowsService.create(input);
-
         const shouldPublish = body.publicar !== false;
         if (!shouldPublish) {
           set.status = 201;
@@ -242,6 +351,50 @@ export const flowsController = new Elysia({ prefix: '/flows' })
       },
     },
   )
+
+  // Catálogo de templates de flow
+  .get(
+    '/templates',
+    () => {
+      return { data: flowsService.getTemplates() };
+    },
+    {
+      detail: {
+        summary: 'List flow templates',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Criar flow (draft) a partir de um template
+  .post(
+    '/templates/:key/instantiate',
+    async ({ params, body, set }) => {
+      try {
+        const flow = await flowsService.instantiateTemplate(params.key, body);
+        if (!flow) {
+          set.status = 404;
+          return { message: 'Template not found' };
+        }
+        set.status = 201;
+        return { data: flow };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to instantiate template';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        key: t.String(),
+      }),
+      body: t.Record(t.String(), t.Unknown()),
+      detail: {
+        summary: 'Create a draft flow from a template',
+        tags: ['Flows'],
+      },
+    },
+  )
   .post(
     '/',
     async ({ body, set }) => {
@@ -293,7 +446,7 @@ export const flowsController = new Elysia({ prefix: '/flows' })
     },
   )
 
-  // Deletar flow
+  // Deletar flow (recusado se outro flow o usa como subflow)
   .delete(
     '/:id',
     async ({ params, set }) => {
@@ -305,7 +458,8 @@ export const flowsController = new Elysia({ prefix: '/flows' })
         }
         return { message: 'Flow deleted successfully' };
       } catch (err) {
-        set.status = 500;
+        // Usado como subflow por outro flow ou recusado pela Twilio
+        set.status = 409;
         const message = err instanceof Error ? err.message : 'Failed to delete flow';
         return { message };
       }
@@ -321,16 +475,54 @@ export const flowsController = new Elysia({ prefix: '/flows' })
     },
   )
 
+  // Clonar flow (novo flow em draft, sem vínculo com a Twilio)
+  .post(
+    '/:id/clone',
+    async ({ params, body, set }) => {
+      try {
+        const flow = await flowsService.clone(params.id, body.name);
+        if (!flow) {
+          set.status = 404;
+          return { message: 'Flow not found' };
+        }
+        set.status = 201;
+        return { data: flow };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to clone flow';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Object({
+        name: t.String({ minLength: 1 }),
+      }),
+      detail: {
+        summary: 'Clone flow under a new name',
+        tags: ['Flows'],
+      },
+    },
+  )
+
   // Preview do JSON Twilio (sem publicar)
   .get(
     '/:id/preview',
     async ({ params, set }) => {
-      const preview = await flowsService.preview(params.id);
-      if (!preview) {
-        set.status = 404;
-        return { message: 'Flow not found' };
+      try {
+        const preview = await flowsService.preview(params.id);
+        if (!preview) {
+          set.status = 404;
+          return { message: 'Flow not found' };
+        }
+        return { data: preview };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to build preview';
+        return { message };
       }
-      return { data: preview };
     },
     {
       params: t.Object({
@@ -365,26 +557,140 @@ export const flowsController = new Elysia({ prefix: '/flows' })
     },
   )
 
+  // Lint offline (não precisa de credenciais da Twilio)
+  .post(
+    '/:id/lint',
+    async ({ params, set }) => {
+      const result = await flowsService.lint(params.id);
+      if (!result) {
+        set.status = 404;
+        return { message: 'Flow not found' };
+      }
+      return { data: result };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Lint flow offline (unreachable nodes, placeholder SIDs, button limits)',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Simular execução local com respostas roteirizadas
+  .post(
+    '/:id/simulate',
+    async ({ params, body, set }) => {
+      try {
+        const result = await flowsService.simulate(params.id, {
+          ...body,
+          now: body.now ? new Date(body.now) : undefined,
+        });
+        if (!result) {
+          set.status = 404;
+          return { message: 'Flow not found' };
+        }
+        return { data: result };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to simulate flow';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Object({
+        trigger: t.Optional(t.String()),
+        replies: t.Array(t.Union([t.String(), t.Null()])), // null = cliente não respondeu (timeout)
+        variables: t.Optional(t.Record(t.String(), t.String())),
+        httpResponses: t.Optional(
+          t.Record(
+            t.String(),
+            t.Object({
+              failed: t.Optional(t.Boolean()),
+              body: t.Optional(t.Unknown()),
+            }),
+          ),
+        ),
+        now: t.Optional(t.String({ format: 'date-time' })),
+        locale: t.Optional(LocaleSchema),
+      }),
+      detail: {
+        summary: 'Simulate flow locally against scripted customer replies',
+        tags: ['Flows'],
+      },
+    },
+  )
+
   // Publicar flow na Twilio
   .post(
     '/:id/publish',
-    async ({ params, set }) => {
-      const result = await flowsService.publish(params.id);
+    async ({ params, body, set }) => {
+      const result = await flowsService.publish(params.id, body ?? {});
       if (!result.success) {
         set.status = 400;
         return { message: result.error || 'Failed to publish flow' };
       }
       return {
         message: 'Flow published successfully',
-        data: { twilioFlowSid: result.twilioFlowSid },
+        data: { twilioFlowSid: result.twilioFlowSid, warnings: result.warnings },
       };
     },
     {
       params: t.Object({
         id: t.String(),
       }),
+      body: t.Optional(
+        t.Object({
+          // ignore (padrão), warn ou require: o que fazer com templates sem aprovação do WhatsApp
+          // (templates criados neste publish ainda não estão aprovados, ver description)
+          approvalPolicy: t.Optional(
+            t.Union([t.Literal('ignore'), t.Literal('warn'), t.Literal('require')]),
+          ),
+          approvalCategory: t.Optional(ApprovalCategorySchema),
+        }),
+      ),
       detail: {
         summary: 'Publish flow to Twilio Studio',
+        description:
+          'Creates the Content Templates of the flow and of unpublished subflows, then checks their WhatsApp approval for the whole tree before publishing anything. Templates created or submitted during this publish come back as "received", so approvalPolicy "require" cannot pass on the first publish: publish with "warn" first (it submits the new templates) and publish with "require" once they are approved.',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Enviar para aprovação do WhatsApp os templates do flow ainda não submetidos
+  .post(
+    '/:id/template-approvals',
+    async ({ params, body, set }) => {
+      try {
+        const approvals = await flowsService.submitTemplateApprovals(params.id, body?.category);
+        if (!approvals) {
+          set.status = 404;
+          return { message: 'Flow not found' };
+        }
+        return { data: approvals };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to submit templates';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Optional(
+        t.Object({
+          category: t.Optional(ApprovalCategorySchema),
+        }),
+      ),
+      detail: {
+        summary: 'Submit the flow Content Templates for WhatsApp approval',
         tags: ['Flows'],
       },
     },
@@ -415,6 +721,225 @@ export const flowsController = new Elysia({ prefix: '/flows' })
     },
   )
 
+  // Importar bundle exportado de outro ambiente
+  .post(
+    '/import',
+    async ({ body, set }) => {
+      try {
+        const result = await flowsService.importBundle(body);
+        set.status = 201;
+        return { message: 'Flow imported successfully', data: result };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to import flow bundle';
+        return { message };
+      }
+    },
+    {
+      body: FlowBundleSchema,
+      detail: {
+        summary: 'Import a flow from an exported bundle',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Exportar flow como bundle portátil
+  .get(
+    '/:id/export',
+    async ({ params, set }) => {
+      const bundle = await flowsService.exportFlow(params.id);
+      if (!bundle) {
+        set.status = 404;
+        return { message: 'Flow not found' };
+      }
+      return { data: bundle };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Export flow as a portable JSON bundle',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Importar flow existente do Twilio Studio
+  .get(
+    '/import/:twilioFlowSid',
+    async ({ params, set }) => {
+      try {
+        const result = await flowsService.importFromTwilio(params.twilioFlowSid);
+        set.status = result.created ? 201 : 200;
+        return {
+          message: result.created
+            ? 'Flow imported successfully'
+            : 'Linked flow updated from Twilio',
+          data: result,
+        };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to import flow';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        twilioFlowSid: t.String({ pattern: '^FW[a-f0-9]{32}$' }),
+      }),
+      detail: {
+        summary: 'Import a Twilio Studio flow into the node model',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Histórico de versões do flow
+  .get(
+    '/:id/versions',
+    async ({ params, query, set }) => {
+      const versions = await flowsService.getVersions(params.id, query.limit);
+      if (!versions) {
+        set.status = 404;
+        return { message: 'Flow not found' };
+      }
+      return { data: versions };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      query: t.Object({
+        limit: t.Optional(t.Numeric({ default: 50 })),
+      }),
+      detail: {
+        summary: 'List flow versions (newest first)',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Diff estrutural entre duas versões
+  .get(
+    '/:id/versions/diff',
+    async ({ params, query, set }) => {
+      const diff = await flowsService.diffVersions(params.id, query.from, query.to);
+      if (!diff) {
+        set.status = 404;
+        return { message: 'Version not found' };
+      }
+      return { data: diff };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      query: t.Object({
+        from: t.Numeric({ minimum: 1 }),
+        to: t.Numeric({ minimum: 1 }),
+      }),
+      detail: {
+        summary: 'Structural diff between two flow versions',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Diff do rascunho contra o snapshot publicado
+  .get(
+    '/:id/pending-changes',
+    async ({ params, set }) => {
+      try {
+        const changes = await flowsService.getPendingChanges(params.id);
+        if (!changes) {
+          set.status = 404;
+          return { message: 'Flow not found' };
+        }
+        return { data: changes };
+      } catch (err) {
+        set.status = 409;
+        return { message: err instanceof Error ? err.message : 'Failed to diff pending changes' };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Diff the working draft against the published snapshot',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Obter uma versão específica
+  .get(
+    '/:id/versions/:version',
+    async ({ params, set }) => {
+      const version = await flowsService.getVersion(params.id, params.version);
+      if (!version) {
+        set.status = 404;
+        return { message: 'Version not found' };
+      }
+      return { data: version };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+        version: t.Numeric({ minimum: 1 }),
+      }),
+      detail: {
+        summary: 'Get flow version',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Restaurar versão (opcionalmente republicando)
+  .post(
+    '/:id/versions/:version/rollback',
+    async ({ params, body, set }) => {
+      try {
+        const result = await flowsService.rollback(params.id, params.version, {
+          publish: body?.publish,
+        });
+        if (!result) {
+          set.status = 404;
+          return { message: 'Version not found' };
+        }
+        if (result.publish && !result.publish.success) {
+          set.status = 400;
+          return {
+            message: `Flow restored, but publish failed: ${result.publish.error}`,
+            data: result,
+          };
+        }
+        return { message: `Flow restored from version ${params.version}`, data: result };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to rollback flow';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+        version: t.Numeric({ minimum: 1 }),
+      }),
+      body: t.Optional(
+        t.Object({
+          publish: t.Optional(t.Boolean()),
+        }),
+      ),
+      detail: {
+        summary: 'Rollback flow to a previous version',
+        tags: ['Flows'],
+      },
+    },
+  )
+
   // Listar Workflows (TaskRouter)
   .get(
     '/taskrouter/workflows',
@@ -525,23 +1050,148 @@ export const flowsController = new Elysia({ prefix: '/flows' })
     },
   )
 
+  // Content Templates criados pelo serviço que nenhum flow referencia
+  .get(
+    '/content-templates/orphans',
+    async ({ set }) => {
+      try {
+        const orphans = await flowsService.getOrphanContentTemplates();
+        return { data: orphans };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to list orphan templates';
+        return { message };
+      }
+    },
+    {
+      detail: {
+        summary: 'List Content Templates created by this service that no flow references',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Deletar templates órfãos na Twilio (todos ou só os SIDs informados)
+  .post(
+    '/content-templates/orphans/purge',
+    async ({ body, set }) => {
+      try {
+        const result = await flowsService.purgeOrphanContentTemplates(body?.contentSids);
+        return { data: result };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to purge orphan templates';
+        return { message };
+      }
+    },
+    {
+      body: t.Optional(
+        t.Object({
+          contentSids: t.Optional(t.Array(t.String({ pattern: '^HX[a-f0-9]{32}$' }))),
+        }),
+      ),
+      detail: {
+        summary: 'Delete orphan Content Templates from Twilio and clear their cache entries',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Criar Content Template (text, quick-reply, list-picker, media ou card)
+  .post(
+    '/content-templates',
+    async ({ body, set }) => {
+      try {
+        const result = await flowsService.createContentTemplate(body);
+        set.status = 201;
+        return { data: result };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to create content template';
+        return { message };
+      }
+    },
+    {
+      body: ContentTemplateSchema,
+      detail: {
+        summary: 'Create a Twilio Content Template',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Obter Content Template por SID
+  .get(
+    '/content-templates/:contentSid',
+    async ({ params, set }) => {
+      try {
+        const template = await flowsService.getContentTemplate(params.contentSid);
+        if (!template) {
+          set.status = 404;
+          return { message: 'Content template not found' };
+        }
+        return { data: template };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to fetch content template';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        contentSid: t.String({ pattern: '^HX[a-f0-9]{32}$' }),
+      }),
+      detail: {
+        summary: 'Get a Twilio Content Template by SID',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Deletar Content Template (recusado se algum flow usa o template)
+  .delete(
+    '/content-templates/:contentSid',
+    async ({ params, set }) => {
+      try {
+        await flowsService.deleteContentTemplate(params.contentSid);
+        return { message: 'Content template deleted successfully' };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to delete content template';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        contentSid: t.String({ pattern: '^HX[a-f0-9]{32}$' }),
+      }),
+      detail: {
+        summary: 'Delete a Twilio Content Template',
+        tags: ['Flows'],
+      },
+    },
+  )
+
   // Criar Content Template de teste
   .post(
     '/content-templates/test',
     async ({ set }) => {
-      const result = await twilioContentClient.createQuickReplyTemplate(
-        `test_template_${Date.now()}`,
-        'Teste de template com botões',
-        [
-          { id: 'btn1', label: 'Opção 1', value: 'opcao1' },
-          { id: 'btn2', label: 'Opção 2', value: 'opcao2' },
-        ],
-      );
-      if (!result.success) {
+      try {
+        const result = await flowsService.createContentTemplate({
+          type: 'quick-reply',
+          friendlyName: `test_template_${Date.now()}`,
+          body: 'Teste de template com botões',
+          buttons: [
+            { id: 'btn1', label: 'Opção 1', value: 'opcao1' },
+            { id: 'btn2', label: 'Opção 2', value: 'opcao2' },
+          ],
+        });
+        return { data: result };
+      } catch (err) {
         set.status = 400;
-        return { message: result.error || 'Failed to create content template' };
+        const message = err instanceof Error ? err.message : 'Failed to create content template';
+        return { message };
       }
-      return { data: { contentSid: result.contentSid } };
     },
     {
       detail: {
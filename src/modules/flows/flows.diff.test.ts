@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test';
+import { diffFlowSnapshots, hasSnapshotChanges } from './flows.diff';
+import type { FlowPublishedSnapshot } from './flows.types';
+
+function createSnapshot(snapshot: Partial<FlowPublishedSnapshot> = {}): FlowPublishedSnapshot {
+  return {
+    name: 'Teste',
+    nodes: [{ id: 'inicio', type: 'message', position: { x: 0, y: 0 }, content: 'Olá' }],
+    start_node_id: 'inicio',
+    ...snapshot,
+  };
+}
+
+describe('diffFlowSnapshots', () => {
+  it('reports default locale changes', () => {
+    const diff = diffFlowSnapshots(
+      createSnapshot({ default_locale: 'pt_BR' }),
+      createSnapshot({ default_locale: 'es' }),
+    );
+
+    expect(diff.defaultLocale).toEqual({ from: 'pt_BR', to: 'es' });
+    expect(hasSnapshotChanges(diff)).toBe(true);
+  });
+
+  it('treats a missing locale as the flow default', () => {
+    const diff = diffFlowSnapshots(createSnapshot(), createSnapshot({ default_locale: 'pt_BR' }));
+
+    expect(diff.defaultLocale).toBeUndefined();
+    expect(hasSnapshotChanges(diff)).toBe(false);
+  });
+});
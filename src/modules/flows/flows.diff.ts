@@ -0,0 +1,104 @@
+import { getFlowDefaultLocale } from './flows.locales';
+import type {
+  FlowEntriesDiff,
+  FlowPublishedSnapshot,
+  FlowSnapshotDiff,
+  FlowVersion,
+  FlowVersionDiff,
+} from './flows.types';
+
+type Entry = Record<string, unknown>;
+
+// Compara duas listas indexadas por chave (id do node / nome do widget), campo a campo
+function diffEntries(
+  before: Entry[],
+  after: Entry[],
+  getKey: (entry: Entry) => string,
+): FlowEntriesDiff {
+  const beforeMap = new Map(before.map((entry) => [getKey(entry), entry]));
+  const afterMap = new Map(after.map((entry) => [getKey(entry), entry]));
+
+  const added = [...afterMap.keys()].filter((key) => !beforeMap.has(key));
+  const removed = [...beforeMap.keys()].filter((key) => !afterMap.has(key));
+  const changed: FlowEntriesDiff['changed'] = [];
+
+  for (const [key, afterEntry] of afterMap) {
+    const beforeEntry = beforeMap.get(key);
+    if (!beforeEntry) continue;
+
+    const fields = [...new Set([...Object.keys(beforeEntry), ...Object.keys(afterEntry)])]
+      .filter((field) => JSON.stringify(beforeEntry[field]) !== JSON.stringify(afterEntry[field]))
+      .sort();
+
+    if (fields.length > 0) {
+      changed.push({ id: key, fields });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+/**
+ * Diff de nome, start node, idioma padrão e nodes (por id) entre dois estados do flow.
+ */
+export function diffFlowSnapshots(
+  from: FlowPublishedSnapshot,
+  to: FlowPublishedSnapshot,
+): FlowSnapshotDiff {
+  const diff: FlowSnapshotDiff = {
+    nodes: diffEntries(from.nodes as unknown as Entry[], to.nodes as unknown as Entry[], (node) =>
+      String(node.id),
+    ),
+  };
+
+  if (from.name !== to.name) {
+    diff.name = { from: from.name, to: to.name };
+  }
+
+  if (from.start_node_id !== to.start_node_id) {
+    diff.startNodeId = { from: from.start_node_id, to: to.start_node_id };
+  }
+
+  // Snapshots sem idioma salvo usam o padrão, como no build
+  const fromLocale = getFlowDefaultLocale(from);
+  const toLocale = getFlowDefaultLocale(to);
+  if (fromLocale !== toLocale) {
+    diff.defaultLocale = { from: fromLocale, to: toLocale };
+  }
+
+  return diff;
+}
+
+export function hasSnapshotChanges(diff: FlowSnapshotDiff): boolean {
+  const { added, removed, changed } = diff.nodes;
+  return Boolean(
+    diff.name ||
+      diff.startNodeId ||
+      diff.defaultLocale ||
+      added.length ||
+      removed.length ||
+      changed.length,
+  );
+}
+
+/**
+ * Diff estrutural entre duas versões: nodes (por id) e, quando as duas têm
+ * definition, widgets do Studio (por nome).
+ */
+export function diffFlowVersions(from: FlowVersion, to: FlowVersion): FlowVersionDiff {
+  const diff: FlowVersionDiff = {
+    from: from.version,
+    to: to.version,
+    ...diffFlowSnapshots(from, to),
+  };
+
+  if (from.definition && to.definition) {
+    diff.widgets = diffEntries(
+      from.definition.states as unknown as Entry[],
+      to.definition.states as unknown as Entry[],
+      (widget) => String(widget.name),
+    );
+  }
+
+  return diff;
+}
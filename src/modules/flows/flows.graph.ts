@@ -0,0 +1,187 @@
+import type { FlowButton, FlowNode } from './flows.types';
+
+export function isReplyButton(button: FlowButton): boolean {
+  return (button.kind ?? 'reply') === 'reply';
+}
+
+// Botões que criam ramo no split (url/phone só abrem o link ou ligam)
+export function getReplyButtons(node: FlowNode): FlowButton[] {
+  return (node.buttons ?? []).filter(isReplyButton);
+}
+
+/**
+ * Retorna os IDs dos nodes alcançáveis diretamente a partir de um node,
+ * na ordem em que os ramos aparecem no canvas (esquerda para direita).
+ */
+export function getNextNodeIds(node: FlowNode): string[] {
+  const targets: Array<string | undefined> = [];
+
+  const replyButtons = getReplyButtons(node);
+
+  if (replyButtons.length > 0) {
+    targets.push(...replyButtons.map((btn) => btn.nextNodeId));
+  } else if (node.type === 'condition' && node.condition) {
+    targets.push(...node.condition.rules.map((rule) => rule.nextNodeId));
+    targets.push(node.condition.elseNodeId);
+  } else {
+    targets.push(node.nextNodeId);
+  }
+
+  if (node.type === 'http') {
+    targets.push(node.http?.failedNodeId);
+  }
+
+  if (node.type === 'hours') {
+    targets.push(node.hours?.closedNodeId);
+  }
+
+  if (node.type === 'subflow') {
+    targets.push(node.subflow?.failedNodeId);
+  }
+
+  if (node.type === 'question') {
+    targets.push(node.validation?.exhaustedNodeId);
+  }
+
+  // Ramos de exceção ficam à direita dos ramos principais no layout
+  targets.push(node.onNoMatchNodeId, node.onTimeoutNodeId, node.onFailureNodeId);
+
+  return [...new Set(targets.filter((id): id is string => Boolean(id)))];
+}
+
+// IDs (Flow.id) dos flows referenciados por nodes "subflow"
+export function getSubflowIds(nodes: FlowNode[]): string[] {
+  const ids = nodes
+    .filter((node) => node.type === 'subflow')
+    .map((node) => node.subflow?.flowId)
+    .filter((id): id is string => Boolean(id));
+  return [...new Set(ids)];
+}
+
+export function getReachableNodeIds(
+  nodeMap: Map<string, FlowNode>,
+  startNodeId: string,
+): Set<string> {
+  const visited = new Set<string>();
+
+  const walk = (nodeId: string): void => {
+    if (visited.has(nodeId)) return;
+    visited.add(nodeId);
+
+    const node = nodeMap.get(nodeId);
+    if (!node) return;
+
+    for (const nextId of getNextNodeIds(node)) {
+      walk(nextId);
+    }
+  };
+
+  walk(startNodeId);
+  return visited;
+}
+
+// {{http.<nodeId>: referência à resposta de um node "http" dentro de textos
+const HTTP_NODE_REFERENCE_PATTERN = /\{\{\s*http\.([a-zA-Z0-9_-]+)/g;
+
+/**
+ * Renomeia os nodes segundo `mapping` (id antigo -> novo), atualizando todas as referências:
+ * transições, ramos de fallback, condition.sourceNodeId e placeholders {{http.<nodeId>}}.
+ */
+export function remapNodeIds(nodes: FlowNode[], mapping: Map<string, string>): FlowNode[] {
+  const mapId = (id: string): string => mapping.get(id) ?? id;
+  const mapOptional = (id?: string): string | undefined => (id ? mapId(id) : id);
+  const mapText = (text: string): string =>
+    text.replace(HTTP_NODE_REFERENCE_PATTERN, (match, nodeId: string) =>
+      mapping.has(nodeId) ? `${match.slice(0, -nodeId.length)}${mapId(nodeId)}` : match,
+    );
+
+  return nodes.map((node) => {
+    const remapped: FlowNode = {
+      ...node,
+      id: mapId(node.id),
+      content: mapText(node.content),
+      nextNodeId: mapOptional(node.nextNodeId),
+      onTimeoutNodeId: mapOptional(node.onTimeoutNodeId),
+      onFailureNodeId: mapOptional(node.onFailureNodeId),
+      onNoMatchNodeId: mapOptional(node.onNoMatchNodeId),
+    };
+
+    if (node.buttons) {
+      remapped.buttons = node.buttons.map((btn) => ({
+        ...btn,
+        nextNodeId: mapOptional(btn.nextNodeId),
+      }));
+    }
+
+    if (node.condition) {
+      remapped.condition = {
+        ...node.condition,
+        sourceNodeId: mapOptional(node.condition.sourceNodeId),
+        elseNodeId: mapOptional(node.condition.elseNodeId),
+        rules: node.condition.rules.map((rule) => ({
+          ...rule,
+          value: rule.value === undefined ? undefined : mapText(rule.value),
+          nextNodeId: mapId(rule.nextNodeId),
+        })),
+      };
+    }
+
+    if (node.http) {
+      remapped.http = {
+        ...node.http,
+        url: mapText(node.http.url),
+        body: node.http.body === undefined ? undefined : mapText(node.http.body),
+        headers: node.http.headers
+          ? Object.fromEntries(
+              Object.entries(node.http.headers).map(([key, value]) => [key, mapText(value)]),
+            )
+          : undefined,
+        failedNodeId: mapOptional(node.http.failedNodeId),
+      };
+    }
+
+    if (node.hours) {
+      remapped.hours = { ...node.hours, closedNodeId: mapOptional(node.hours.closedNodeId) };
+    }
+
+    if (node.subflow) {
+      remapped.subflow = { ...node.subflow, failedNodeId: mapOptional(node.subflow.failedNodeId) };
+    }
+
+    if (node.validation) {
+      remapped.validation = {
+        ...node.validation,
+        exhaustedNodeId: mapOptional(node.validation.exhaustedNodeId),
+      };
+    }
+
+    if (node.transferConfig?.attributes) {
+      remapped.transferConfig = {
+        ...node.transferConfig,
+        attributes: Object.fromEntries(
+          Object.entries(node.transferConfig.attributes).map(([key, value]) => [
+            key,
+            mapText(value),
+          ]),
+        ),
+      };
+    }
+
+    if (node.media) {
+      remapped.media = { ...node.media, urls: node.media.urls.map(mapText) };
+    }
+
+    if (node.translations) {
+      remapped.translations = Object.fromEntries(
+        Object.entries(node.translations).map(([locale, translation]) => [
+          locale,
+          translation.content === undefined
+            ? translation
+            : { ...translation, content: mapText(translation.content) },
+        ]),
+      );
+    }
+
+    return remapped;
+  });
+}
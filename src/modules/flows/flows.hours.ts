@@ -0,0 +1,140 @@
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTime(value: string): boolean {
+  return TIME_PATTERN.test(value);
+}
+
+export function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value);
+}
+
+// "08:30" -> 830 (formato numérico comparável com o %H%M do Liquid)
+export function timeToNumber(value: string): number {
+  return Number(value.replace(':', ''));
+}
+
+const timezoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getTimezoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = timezoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    timezoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Diferença (em segundos) entre o horário local do timezone e UTC no instante `at`.
+ * Ex.: America/Sao_Paulo -> -10800.
+ */
+export function getTimezoneOffsetSeconds(timeZone: string, at: Date): number {
+  const parts = getTimezoneFormatter(timeZone).formatToParts(at);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const localAsUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+
+  return Math.round((localAsUtc - Math.floor(at.getTime() / 1000) * 1000) / 1000);
+}
+
+// Anos à frente cobertos pelas mudanças de horário de verão compiladas no flow
+const OFFSET_TRANSITION_YEARS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Instantes (epoch em segundos) em que o offset do timezone muda entre `from` e `until`,
+ * com o offset válido a partir de cada um.
+ */
+export function getTimezoneOffsetTransitions(
+  timeZone: string,
+  from: Date,
+  until: Date,
+): Array<{ at: number; offsetSeconds: number }> {
+  const transitions: Array<{ at: number; offsetSeconds: number }> = [];
+  let previousMs = from.getTime();
+  let previousOffset = getTimezoneOffsetSeconds(timeZone, from);
+
+  for (let ms = previousMs + DAY_MS; ms <= until.getTime(); ms += DAY_MS) {
+    const offset = getTimezoneOffsetSeconds(timeZone, new Date(ms));
+    if (offset === previousOffset) {
+      previousMs = ms;
+      continue;
+    }
+
+    // Busca binária do segundo exato da mudança dentro do dia
+    let low = Math.floor(previousMs / 1000);
+    let high = Math.floor(ms / 1000);
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (getTimezoneOffsetSeconds(timeZone, new Date(middle * 1000)) === previousOffset) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    transitions.push({ at: high, offsetSeconds: offset });
+    previousMs = ms;
+    previousOffset = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Liquid que formata a hora local do timezone no momento da execução. O Liquid do Studio
+ * não converte timezone, então o offset é escolhido entre as mudanças de horário de verão
+ * dos próximos anos, calculadas a partir de `from` (a publicação).
+ */
+export function buildLocalTimeLiquid(
+  timeZone: string | undefined,
+  from: Date,
+  format: string,
+): string {
+  if (!timeZone) return `{{'now' | date: '${format}'}}`;
+
+  const until = new Date(from.getTime());
+  until.setUTCFullYear(until.getUTCFullYear() + OFFSET_TRANSITION_YEARS);
+
+  const transitions = getTimezoneOffsetTransitions(timeZone, from, until)
+    .map(
+      (transition) =>
+        `{% if utc_ts >= ${transition.at} %}{% assign offset = ${transition.offsetSeconds} %}{% endif %}`,
+    )
+    .join('');
+
+  return [
+    `{% assign utc_ts = 'now' | date: '%s' | plus: 0 %}`,
+    `{% assign offset = ${getTimezoneOffsetSeconds(timeZone, from)} %}`,
+    transitions,
+    `{{utc_ts | plus: offset | date: '${format}'}}`,
+  ].join('');
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'bun:test';
+import { FlowImporter } from './flows.importer';
+import type { TwilioFlowDefinition, TwilioTransition, TwilioWidget } from './flows.types';
+
+function createWidget(
+  name: string,
+  type: string,
+  transitions: TwilioTransition[],
+  properties: Record<string, unknown> = {},
+): TwilioWidget {
+  return { name, type, transitions, properties: { offset: { x: 0, y: 0 }, ...properties } };
+}
+
+function createDefinition(states: TwilioWidget[]): TwilioFlowDefinition {
+  return {
+    description: 'Teste',
+    flags: { allow_concurrent_calls: true },
+    initial_state: 'Trigger',
+    states,
+  };
+}
+
+const trigger = (next: string) =>
+  createWidget('Trigger', 'trigger', [{ event: 'incomingMessage', next }]);
+
+describe('FlowImporter', () => {
+  const importer = new FlowImporter();
+
+  it('skips pass-through widgets and reports them', () => {
+    const output = importer.import(
+      createDefinition([
+        trigger('bot_init'),
+        createWidget('bot_init', 'set-variables', [{ event: 'next', next: 'welcome' }]),
+        createWidget('welcome', 'send-message', [{ event: 'sent' }], { body: 'Olá' }),
+      ]),
+    );
+
+    expect(output.startNodeId).toBe('welcome');
+    expect(output.nodes).toEqual([
+      { id: 'welcome', type: 'message', position: { x: 0, y: 0 }, content: 'Olá' },
+    ]);
+    expect(output.unsupported.map((issue) => issue.widget)).toEqual(['bot_init']);
+  });
+
+  it('turns a text menu split into a buttons node', () => {
+    const output = importer.import(
+      createDefinition([
+        trigger('menu'),
+        createWidget(
+          'menu',
+          'send-and-wait-for-reply',
+          [{ event: 'incomingMessage', next: 'menu_split' }],
+          {
+            body: 'Escolha\n\n1. Vendas\n2. Suporte',
+          },
+        ),
+        createWidget(
+          'menu_split',
+          'split-based-on',
+          [
+            {
+              event: 'match',
+              next: 'sales',
+              conditions: [
+                {
+                  type: 'matches_any_of',
+                  friendly_name: 'Vendas',
+                  value: '1,vendas',
+                  arguments: ['1', 'vendas'],
+                },
+              ],
+            },
+            {
+              event: 'match',
+              next: 'support',
+              conditions: [
+                {
+                  type: 'matches_any_of',
+                  friendly_name: 'Suporte',
+                  value: '2,suporte',
+                  arguments: ['2', 'suporte'],
+                },
+              ],
+            },
+            { event: 'noMatch', next: 'sales' },
+          ],
+          { input: '{{widgets.menu.inbound.Body}}' },
+        ),
+        createWidget('sales', 'send-message', [{ event: 'sent' }], { body: 'Vendas' }),
+        createWidget('support', 'send-message', [{ event: 'sent' }], { body: 'Suporte' }),
+      ]),
+    );
+
+    const menu = output.nodes.find((node) => node.id === 'menu');
+    expect(menu?.type).toBe('buttons');
+    expect(menu?.content).toBe('Escolha');
+    expect(menu?.onNoMatchNodeId).toBe('sales');
+    expect(menu?.buttons).toEqual([
+      { id: 'btn_1', label: 'Vendas', value: 'vendas', nextNodeId: 'sales' },
+      { id: 'btn_2', label: 'Suporte', value: 'suporte', nextNodeId: 'support' },
+    ]);
+    expect(output.nodes.some((node) => node.id === 'menu_split')).toBe(false);
+  });
+
+  it('imports variable splits as conditions and drops unsupported rules', () => {
+    const output = importer.import(
+      createDefinition([
+        trigger('check'),
+        createWidget(
+          'check',
+          'split-based-on',
+          [
+            {
+              event: 'match',
+              next: 'vip',
+              conditions: [
+                {
+                  type: 'equal_to',
+                  friendly_name: 'Premium',
+                  value: 'premium',
+                  arguments: ['{{flow.variables.plano}}'],
+                },
+              ],
+            },
+            {
+              event: 'match',
+              next: 'http',
+              conditions: [
+                { type: 'is_blank', friendly_name: 'Vazio', value: '', arguments: [''] },
+              ],
+            },
+            { event: 'noMatch', next: 'regular' },
+          ],
+          { input: '{{flow.variables.plano}}' },
+        ),
+        createWidget('vip', 'send-message', [{ event: 'sent' }], { body: 'VIP' }),
+        createWidget('regular', 'send-message', [{ event: 'sent' }], { body: 'Regular' }),
+        createWidget('http', 'make-http-request', [{ event: 'success' }]),
+      ]),
+    );
+
+    const check = output.nodes.find((node) => node.id === 'check');
+    expect(check?.condition).toEqual({
+      variable: 'plano',
+      sourceNodeId: undefined,
+      rules: [{ id: 'rule_1', operator: 'equals', value: 'premium', nextNodeId: 'vip' }],
+      elseNodeId: 'regular',
+    });
+    expect(output.unsupported.map((issue) => issue.widget)).toEqual(['check', 'http']);
+  });
+
+  it('fails when the trigger does not reach a supported widget', () => {
+    expect(() =>
+      importer.import(
+        createDefinition([
+          trigger('http'),
+          createWidget('http', 'make-http-request', [{ event: 'success' }]),
+        ]),
+      ),
+    ).toThrow('Could not find a supported widget connected to the incoming message trigger');
+  });
+});
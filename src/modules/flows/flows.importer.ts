@@ -0,0 +1,441 @@
+import type {
+  ConditionOperator,
+  ConditionRule,
+  FlowButton,
+  FlowImportIssue,
+  FlowNode,
+  Position,
+  TransferConfig,
+  TwilioFlowDefinition,
+  TwilioTransition,
+  TwilioWidget,
+} from './flows.types';
+
+// Inverso do CONDITION_OPERATOR_TYPES do builder
+const TWILIO_CONDITION_OPERATORS: Record<string, ConditionOperator> = {
+  equal_to: 'equals',
+  not_equal_to: 'not_equals',
+  contains: 'contains',
+  does_not_contain: 'not_contains',
+  regex: 'regex',
+  greater_than: 'greater_than',
+  less_than: 'less_than',
+  is_blank: 'is_empty',
+  is_not_blank: 'is_not_empty',
+};
+
+// Widgets sem equivalente que apenas seguem adiante (ex.: set-variables do bot_init)
+const PASS_THROUGH_TYPES = new Set(['set-variables']);
+
+const TRIGGER_EVENTS = ['incomingMessage', 'incomingConversationMessage'];
+
+export interface FlowImportOutput {
+  nodes: FlowNode[];
+  startNodeId: string;
+  unsupported: FlowImportIssue[];
+}
+
+/**
+ * Converte uma definição do Twilio Studio de volta para o modelo simplificado de nodes.
+ * Cada widget suportado vira um node com o mesmo nome; os demais entram no relatório.
+ */
+export class FlowImporter {
+  private widgetMap: Map<string, TwilioWidget> = new Map();
+  private consumed: Map<string, string> = new Map(); // split absorvido -> send-and-wait dono
+  private unsupported: FlowImportIssue[] = [];
+
+  import(definition: TwilioFlowDefinition): FlowImportOutput {
+    this.widgetMap = new Map(definition.states.map((widget) => [widget.name, widget]));
+    this.consumed = new Map();
+    this.unsupported = [];
+
+    // Splits de botões são absorvidos pelo node "buttons" do send-and-wait correspondente
+    for (const widget of definition.states) {
+      if (widget.type === 'send-and-wait-for-reply') {
+        const split = this.findButtonsSplit(widget);
+        if (split) this.consumed.set(split.name, widget.name);
+      }
+    }
+
+    const trigger = this.widgetMap.get(definition.initial_state);
+    const triggerTransition = trigger?.transitions.find(
+      (transition) => TRIGGER_EVENTS.includes(transition.event) && transition.next,
+    );
+    const startNodeId = this.resolveTarget(triggerTransition?.next);
+    if (!startNodeId) {
+      throw new Error(
+        'Could not find a supported widget connected to the incoming message trigger',
+      );
+    }
+
+    const nodes: FlowNode[] = [];
+
+    for (const widget of definition.states) {
+      if (widget.name === definition.initial_state || this.consumed.has(widget.name)) continue;
+
+      const node = this.mapWidget(widget);
+      if (node) {
+        nodes.push(node);
+      } else if (!this.unsupported.some((issue) => issue.widget === widget.name)) {
+        this.unsupported.push({
+          widget: widget.name,
+          type: widget.type,
+          reason: PASS_THROUGH_TYPES.has(widget.type)
+            ? 'Skipped; connections continue to its next widget'
+            : 'Widget type is not supported',
+        });
+      }
+    }
+
+    const prunedNodes = this.pruneDanglingReferences(nodes);
+    if (!prunedNodes.some((node) => node.id === startNodeId)) {
+      throw new Error(`Start widget "${startNodeId}" could not be imported`);
+    }
+
+    return { nodes: prunedNodes, startNodeId, unsupported: this.unsupported };
+  }
+
+  /**
+   * Remove conexões para widgets que não viraram node. Conditions que ficam sem regras
+   * também saem, então repete até estabilizar.
+   */
+  private pruneDanglingReferences(nodes: FlowNode[]): FlowNode[] {
+    let current = nodes;
+
+    while (true) {
+      const ids = new Set(current.map((node) => node.id));
+      const keep = (id?: string) => (id && ids.has(id) ? id : undefined);
+
+      const next = current
+        .map((node): FlowNode => {
+          const pruned: FlowNode = {
+            ...node,
+            nextNodeId: keep(node.nextNodeId),
+            onTimeoutNodeId: keep(node.onTimeoutNodeId),
+            onFailureNodeId: keep(node.onFailureNodeId),
+            onNoMatchNodeId: keep(node.onNoMatchNodeId),
+          };
+
+          if (node.buttons) {
+            pruned.buttons = node.buttons.filter(
+              (btn) => btn.nextNodeId && ids.has(btn.nextNodeId),
+            );
+          }
+
+          if (node.condition) {
+            pruned.condition = {
+              ...node.condition,
+              sourceNodeId: keep(node.condition.sourceNodeId),
+              rules: node.condition.rules.filter((rule) => ids.has(rule.nextNodeId)),
+              elseNodeId: keep(node.condition.elseNodeId),
+            };
+          }
+
+          return pruned;
+        })
+        .filter((node) => {
+          const condition = node.condition;
+          if (!condition) return true;
+
+          const valid =
+            condition.rules.length > 0 && Boolean(condition.variable || condition.sourceNodeId);
+          if (!valid) {
+            this.unsupported.push({
+              widget: node.id,
+              type: 'split-based-on',
+              reason: 'No importable conditions left',
+            });
+          }
+          return valid;
+        });
+
+      if (next.length === current.length) return next;
+      current = next;
+    }
+  }
+
+  private mapWidget(widget: TwilioWidget): FlowNode | null {
+    switch (widget.type) {
+      case 'send-message':
+        return this.mapSendMessage(widget);
+      case 'send-and-wait-for-reply':
+        return this.mapSendAndWait(widget);
+      case 'split-based-on':
+        return this.mapSplit(widget);
+      case 'send-to-flex':
+        return this.mapSendToFlex(widget);
+      default:
+        return null;
+    }
+  }
+
+  private mapSendMessage(widget: TwilioWidget): FlowNode {
+    const properties = widget.properties;
+    const mediaUrl = this.getString(properties.media_url);
+
+    const node: FlowNode = {
+      ...this.createBaseNode(widget, mediaUrl ? 'media' : 'message'),
+      nextNodeId: this.resolveTransition(widget, 'sent'),
+      onFailureNodeId: this.resolveTransition(widget, 'failed'),
+    };
+
+    if (mediaUrl) {
+      node.media = { urls: [mediaUrl] };
+    }
+
+    return node;
+  }
+
+  private mapSendAndWait(widget: TwilioWidget): FlowNode {
+    const base: FlowNode = {
+      ...this.createBaseNode(widget, 'question'),
+      onTimeoutNodeId: this.resolveTransition(widget, 'timeout'),
+      onFailureNodeId: this.resolveTransition(widget, 'deliveryFailure'),
+    };
+
+    const timeout = Number(widget.properties.timeout);
+    if (Number.isFinite(timeout) && timeout > 0) {
+      base.timeout = timeout;
+    }
+
+    const split = this.findButtonsSplit(widget);
+    if (!split) {
+      return { ...base, nextNodeId: this.resolveTransition(widget, 'incomingMessage') };
+    }
+
+    const buttons = this.mapButtons(split);
+
+    // Remove o texto "1. Opção" que o builder acrescenta no fallback sem Content Template
+    const optionsText = buttons.map((btn, index) => `${index + 1}. ${btn.label}`).join('\n');
+    const content = base.content.endsWith(`\n\n${optionsText}`)
+      ? base.content.slice(0, -(optionsText.length + 2))
+      : base.content;
+
+    return {
+      ...base,
+      type: 'buttons',
+      content,
+      buttons,
+      onNoMatchNodeId: this.resolveTransition(split, 'noMatch'),
+      noMatchRetries: 0, // O Studio original não tinha loop de nova tentativa
+    };
+  }
+
+  private mapButtons(split: TwilioWidget): FlowButton[] {
+    const buttons: FlowButton[] = [];
+
+    for (const transition of split.transitions) {
+      if (transition.event !== 'match') continue;
+
+      const condition = transition.conditions?.[0];
+      const nextNodeId = this.resolveTarget(transition.next);
+      if (!condition || !nextNodeId) continue;
+
+      const index = buttons.length + 1;
+      const value = condition.type === 'matches_any_of' ? condition.arguments[1] : undefined;
+      const label = condition.friendly_name.startsWith('If value')
+        ? condition.value
+        : condition.friendly_name;
+
+      buttons.push({
+        id: condition.type === 'equal_to' ? condition.value : `btn_${index}`,
+        label,
+        value: value || condition.value,
+        nextNodeId,
+      });
+    }
+
+    return buttons;
+  }
+
+  private mapSplit(widget: TwilioWidget): FlowNode | null {
+    const input = this.getString(widget.properties.input);
+    const variable = input.match(/^\{\{\s*flow\.variables\.([a-zA-Z0-9_]+)\s*\}\}$/)?.[1];
+    const sourceNodeId = input.match(
+      /^\{\{\s*widgets\.([a-zA-Z0-9_]+)\.inbound\.Body\s*\}\}$/,
+    )?.[1];
+
+    if (!variable && !sourceNodeId) {
+      this.unsupported.push({
+        widget: widget.name,
+        type: widget.type,
+        reason: `Unsupported split input "${input}"`,
+      });
+      return null;
+    }
+
+    const rules: ConditionRule[] = [];
+
+    for (const transition of widget.transitions) {
+      if (transition.event !== 'match') continue;
+
+      const rule = this.mapConditionRule(widget, transition, rules.length + 1);
+      if (rule) rules.push(rule);
+    }
+
+    return {
+      ...this.createBaseNode(widget, 'condition'),
+      content: widget.name,
+      condition: {
+        variable,
+        sourceNodeId: sourceNodeId && this.widgetMap.has(sourceNodeId) ? sourceNodeId : undefined,
+        rules,
+        elseNodeId: this.resolveTransition(widget, 'noMatch'),
+      },
+    };
+  }
+
+  private mapConditionRule(
+    widget: TwilioWidget,
+    transition: TwilioTransition,
+    index: number,
+  ): ConditionRule | null {
+    const conditions = transition.conditions || [];
+    const condition = conditions[0];
+    const operator = condition ? TWILIO_CONDITION_OPERATORS[condition.type] : undefined;
+    const nextNodeId = this.resolveTarget(transition.next);
+
+    if (!condition || conditions.length > 1 || !operator || !nextNodeId) {
+      const reason = nextNodeId
+        ? 'only single conditions with a supported operator are imported'
+        : 'its target widget is not supported';
+      this.unsupported.push({
+        widget: widget.name,
+        type: widget.type,
+        reason: `Skipped condition "${condition?.friendly_name ?? transition.event}" (${reason})`,
+      });
+      return null;
+    }
+
+    const rule: ConditionRule = { id: `rule_${index}`, operator, nextNodeId };
+    if (operator !== 'is_empty' && operator !== 'is_not_empty') {
+      rule.value = condition.value;
+    }
+    return rule;
+  }
+
+  private mapSendToFlex(widget: TwilioWidget): FlowNode {
+    const properties = widget.properties;
+    const transferConfig: TransferConfig = {};
+
+    const workflowSid = this.getString(properties.workflow);
+    const channelSid = this.getString(properties.channel);
+    const priority = Number(properties.priority);
+    const timeout = Number(properties.timeout);
+
+    if (workflowSid) transferConfig.workflowSid = workflowSid;
+    if (channelSid) transferConfig.channelSid = channelSid;
+    if (Number.isFinite(priority) && priority > 0) transferConfig.priority = priority;
+    if (Number.isFinite(timeout) && timeout > 0) transferConfig.timeout = timeout;
+
+    // "type" e "name" são gerados pelo builder; o resto volta como atributo customizado
+    try {
+      const attributes = JSON.parse(this.getString(properties.attributes) || '{}');
+      const custom = Object.entries(attributes).filter(
+        ([key, value]) => key !== 'type' && key !== 'name' && typeof value === 'string',
+      ) as Array<[string, string]>;
+      if (custom.length > 0) transferConfig.attributes = Object.fromEntries(custom);
+    } catch {
+      this.unsupported.push({
+        widget: widget.name,
+        type: widget.type,
+        reason: 'Task attributes are not valid JSON and were dropped',
+      });
+    }
+
+    return {
+      ...this.createBaseNode(widget, 'transfer'),
+      content: widget.name,
+      transferConfig,
+      onFailureNodeId: this.resolveTransition(widget, 'failedToEnqueue'),
+    };
+  }
+
+  /**
+   * Split que avalia a resposta do send-and-wait (direto ou via set-variables do Content Template).
+   */
+  private findButtonsSplit(widget: TwilioWidget): TwilioWidget | null {
+    let nextName = widget.transitions.find((t) => t.event === 'incomingMessage')?.next;
+    let next = nextName ? this.widgetMap.get(nextName) : undefined;
+
+    if (next && PASS_THROUGH_TYPES.has(next.type)) {
+      nextName = next.transitions.find((t) => t.event === 'next')?.next;
+      next = nextName ? this.widgetMap.get(nextName) : undefined;
+    }
+
+    if (!next || next.type !== 'split-based-on') return null;
+
+    // Content Template (response_id) ou opções em texto (matches_any_of, como o builder gera);
+    // outros splits sobre a resposta viram question + condition
+    const input = this.getString(next.properties.input);
+    if (input.includes('flow.variables.response_id')) return next;
+
+    const matches = next.transitions.filter((t) => t.event === 'match');
+    const isTextMenu =
+      input.includes(`widgets.${widget.name}.inbound`) &&
+      matches.length > 0 &&
+      matches.every(
+        (t) => t.conditions?.length === 1 && t.conditions[0]?.type === 'matches_any_of',
+      );
+
+    return isTextMenu ? next : null;
+  }
+
+  private createBaseNode(widget: TwilioWidget, type: FlowNode['type']): FlowNode {
+    const properties = widget.properties;
+    const node: FlowNode = {
+      id: widget.name,
+      type,
+      position: this.getPosition(widget),
+      content: this.getString(properties.body),
+    };
+
+    const contentSid = this.getString(properties.content_sid || properties.content_template_sid);
+    if (properties.message_type === 'content_template' && contentSid) {
+      node.contentTemplateSid = contentSid;
+    }
+
+    return node;
+  }
+
+  private resolveTransition(widget: TwilioWidget, event: string): string | undefined {
+    return this.resolveTarget(widget.transitions.find((t) => t.event === event)?.next);
+  }
+
+  /**
+   * Nome do widget de destino -> id do node. Widgets pass-through são atravessados;
+   * destinos sem suporte ficam sem conexão (aparecem no relatório).
+   */
+  private resolveTarget(
+    widgetName: string | undefined,
+    visited = new Set<string>(),
+  ): string | undefined {
+    if (!widgetName || visited.has(widgetName)) return undefined;
+    visited.add(widgetName);
+
+    const widget = this.widgetMap.get(widgetName);
+    if (!widget) return undefined;
+
+    const owner = this.consumed.get(widgetName);
+    if (owner) return owner;
+
+    if (PASS_THROUGH_TYPES.has(widget.type)) {
+      const next = widget.transitions.find((t) => t.event === 'next')?.next;
+      return this.resolveTarget(next, visited);
+    }
+
+    const supported = ['send-message', 'send-and-wait-for-reply', 'split-based-on', 'send-to-flex'];
+    return supported.includes(widget.type) ? widget.name : undefined;
+  }
+
+  private getPosition(widget: TwilioWidget): Position {
+    const offset = widget.properties.offset;
+    return { x: offset?.x ?? 0, y: offset?.y ?? 0 };
+  }
+
+  private getString(value: unknown): string {
+    return typeof value === 'string' ? value : '';
+  }
+}
+
+export const flowImporter = new FlowImporter();
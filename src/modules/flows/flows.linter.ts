@@ -0,0 +1,128 @@
+import { PLACEHOLDER_TASK_CHANNEL_SID, PLACEHOLDER_WORKFLOW_SID } from './flows.builder';
+import { BUTTON_LABEL_MAX } from './flows.content';
+import { getReachableNodeIds, isReplyButton } from './flows.graph';
+import type { Flow, FlowLintFinding, FlowLintResult, FlowNode } from './flows.types';
+
+// Limites da Content API (ver TwilioContentClient)
+const LIST_PICKER_DESCRIPTION_MAX = 72;
+const MAX_BUTTONS = 10;
+
+function lintButtons(node: FlowNode, findings: FlowLintFinding[]): void {
+  const buttons = node.buttons ?? [];
+
+  if (buttons.length > MAX_BUTTONS) {
+    findings.push({
+      severity: 'warning',
+      nodeId: node.id,
+      code: 'too-many-buttons',
+      message: `Node has ${buttons.length} buttons; menus with more than ${MAX_BUTTONS} are split into pages with a "more options" item`,
+    });
+  }
+
+  // Seção e descrição dividem a linha secundária do item no list-picker
+  for (const button of buttons) {
+    const detail = [button.section, button.description].filter(Boolean).join(' · ');
+    if (detail.length > LIST_PICKER_DESCRIPTION_MAX) {
+      findings.push({
+        severity: 'warning',
+        nodeId: node.id,
+        code: 'button-description-too-long',
+        message: `Button "${button.label}" section and description exceed ${LIST_PICKER_DESCRIPTION_MAX} characters and will be truncated`,
+      });
+    }
+  }
+
+  // Labels traduzidos viram templates próprios e têm o mesmo limite
+  const translatedLabels = Object.values(node.translations ?? {}).flatMap((translation) =>
+    Object.values(translation.buttons ?? {}),
+  );
+
+  for (const label of [...buttons.map((button) => button.label), ...translatedLabels]) {
+    if (label.length > BUTTON_LABEL_MAX) {
+      findings.push({
+        severity: 'warning',
+        nodeId: node.id,
+        code: 'button-label-too-long',
+        message: `Button "${label}" exceeds ${BUTTON_LABEL_MAX} characters and will be truncated`,
+      });
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const button of buttons.filter(isReplyButton)) {
+    const value = button.value.trim().toLowerCase();
+    if (seen.has(value)) {
+      findings.push({
+        severity: 'error',
+        nodeId: node.id,
+        code: 'duplicate-button-value',
+        message: `Button value "${button.value}" is used more than once`,
+      });
+    }
+    seen.add(value);
+  }
+}
+
+function lintTransfer(node: FlowNode, findings: FlowLintFinding[]): void {
+  const config = node.transferConfig ?? {};
+
+  if (!config.workflowSid || config.workflowSid === PLACEHOLDER_WORKFLOW_SID) {
+    findings.push({
+      severity: 'error',
+      nodeId: node.id,
+      code: 'placeholder-workflow-sid',
+      message: `Transfer uses the placeholder workflow SID ${PLACEHOLDER_WORKFLOW_SID}`,
+    });
+  }
+
+  if (!config.channelSid || config.channelSid === PLACEHOLDER_TASK_CHANNEL_SID) {
+    findings.push({
+      severity: 'error',
+      nodeId: node.id,
+      code: 'placeholder-channel-sid',
+      message: `Transfer uses the placeholder task channel SID ${PLACEHOLDER_TASK_CHANNEL_SID}`,
+    });
+  }
+}
+
+/**
+ * Verificações offline (sem credenciais da Twilio) sobre o modelo de nodes.
+ */
+export function lintFlow(flow: Flow): FlowLintResult {
+  const findings: FlowLintFinding[] = [];
+  const nodeMap = new Map(flow.nodes.map((node) => [node.id, node]));
+  const reachable = getReachableNodeIds(nodeMap, flow.start_node_id);
+
+  for (const node of flow.nodes) {
+    if (!reachable.has(node.id)) {
+      findings.push({
+        severity: 'warning',
+        nodeId: node.id,
+        code: 'unreachable-node',
+        message: 'Node is not reachable from the start node and will not be published',
+      });
+    }
+
+    if (node.type === 'buttons') {
+      lintButtons(node, findings);
+    }
+
+    if (node.type === 'transfer') {
+      lintTransfer(node, findings);
+    }
+
+    if (node.type === 'question' && !node.nextNodeId) {
+      findings.push({
+        severity: 'warning',
+        nodeId: node.id,
+        code: 'question-without-next',
+        message: 'Question has no next node; the answer is collected and the flow ends',
+      });
+    }
+  }
+
+  return {
+    valid: !findings.some((finding) => finding.severity === 'error'),
+    findings,
+  };
+}
@@ -0,0 +1,122 @@
+import type { Flow, FlowNode } from './flows.types';
+
+// Idioma dos flows sem default_locale (mesmo default da Content API em TwilioContentClient)
+export const DEFAULT_FLOW_LOCALE = 'pt_BR';
+
+// Código de idioma aceito pela Content API: "es", "en", "pt_BR"...
+export const LOCALE_PATTERN = /^[a-z]{2}(_[A-Z]{2})?$/;
+
+// DDIs usados para detectar o idioma do contato quando não há um locale salvo
+const LANGUAGE_PHONE_PREFIXES: Record<string, string[]> = {
+  pt: ['+55', '+351', '+244', '+258'],
+  es: ['+34', '+52', '+54', '+56', '+57', '+51', '+58', '+593', '+595', '+598', '+591'],
+  en: ['+1', '+44', '+61', '+64', '+353'],
+};
+
+export function getFlowDefaultLocale(flow: Pick<Flow, 'default_locale'>): string {
+  return flow.default_locale || DEFAULT_FLOW_LOCALE;
+}
+
+/**
+ * Idiomas do flow: o padrão primeiro, seguido dos idiomas com tradução em algum node.
+ */
+export function getFlowLocales(flow: Pick<Flow, 'default_locale' | 'nodes'>): string[] {
+  const defaultLocale = getFlowDefaultLocale(flow);
+  const locales = new Set<string>();
+
+  for (const node of flow.nodes) {
+    for (const locale of Object.keys(node.translations ?? {})) {
+      if (locale !== defaultLocale) locales.add(locale);
+    }
+  }
+
+  return [defaultLocale, ...[...locales].sort()];
+}
+
+/**
+ * Se a tradução altera o que é enviado (texto ou labels), o Content Template do idioma
+ * padrão não serve e o node usa o template da própria tradução.
+ */
+function hasTranslatedContent(node: FlowNode, locale: string): boolean {
+  const translation = node.translations?.[locale];
+  if (!translation) return false;
+  return translation.content !== undefined || Object.keys(translation.buttons ?? {}).length > 0;
+}
+
+/**
+ * Versão do node no idioma informado: campos sem tradução herdam do idioma padrão.
+ */
+export function localizeNode(node: FlowNode, locale: string, defaultLocale: string): FlowNode {
+  if (locale === defaultLocale || !hasTranslatedContent(node, locale)) return node;
+
+  const translation = node.translations?.[locale] ?? {};
+
+  return {
+    ...node,
+    content: translation.content ?? node.content,
+    buttons: node.buttons?.map((btn) => ({
+      ...btn,
+      label: translation.buttons?.[btn.id] ?? btn.label,
+    })),
+    contentTemplateSid: translation.contentTemplateSid,
+    pageTemplateSids: translation.pageTemplateSids,
+  };
+}
+
+export function localizeNodes(
+  nodes: FlowNode[],
+  locale: string,
+  defaultLocale: string,
+): FlowNode[] {
+  return nodes.map((node) => localizeNode(node, locale, defaultLocale));
+}
+
+/**
+ * Remove os SIDs de templates gerados no publish (idioma padrão e traduções).
+ */
+export function stripTemplateSids(node: FlowNode): FlowNode {
+  const { contentTemplateSid: _sid, pageTemplateSids: _pageSids, ...rest } = node;
+  if (!rest.translations) return rest;
+
+  return {
+    ...rest,
+    translations: Object.fromEntries(
+      Object.entries(rest.translations).map(([locale, translation]) => {
+        const {
+          contentTemplateSid: _translationSid,
+          pageTemplateSids: _translationPageSids,
+          ...translationRest
+        } = translation;
+        return [locale, translationRest];
+      }),
+    ),
+  };
+}
+
+/**
+ * Expressão Liquid do set-variables inicial: usa o locale salvo (flow.data.locale, repassado
+ * por REST ou pelo flow pai via subflow) e, sem ele, detecta pelo DDI do contato.
+ */
+export function buildLocaleDetectionLiquid(locales: string[], defaultLocale: string): string {
+  const branches: string[] = [];
+  const languages = new Set<string>();
+
+  for (const locale of locales) {
+    const language = locale.slice(0, 2);
+    const prefixes = LANGUAGE_PHONE_PREFIXES[language];
+    // Idiomas que compartilham o mesmo DDI (ex.: en e en_GB): o primeiro vence
+    if (!prefixes || languages.has(language)) continue;
+    languages.add(language);
+
+    const condition = prefixes
+      .map((prefix) => `contact.channel.address contains '${prefix}'`)
+      .join(' or ');
+    branches.push(`{% elsif ${condition} %}${locale}`);
+  }
+
+  return [
+    '{% if flow.data.locale != blank %}{{flow.data.locale}}',
+    ...branches,
+    `{% else %}${defaultLocale}{% endif %}`,
+  ].join('');
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  collapseMenuPages,
+  getMenuPageNodeId,
+  isPaginatedMenu,
+  MORE_OPTIONS_BUTTON_ID,
+  paginateMenuNode,
+} from './flows.menus';
+import type { FlowButton, FlowNode } from './flows.types';
+
+function createButtons(count: number): FlowButton[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `opt_${index + 1}`,
+    label: `Opção ${index + 1}`,
+    value: `opcao_${index + 1}`,
+    nextNodeId: 'next',
+  }));
+}
+
+function createMenu(count: number, node: Partial<FlowNode> = {}): FlowNode {
+  return {
+    id: 'menu',
+    type: 'buttons',
+    position: { x: 0, y: 0 },
+    content: 'Escolha uma opção',
+    buttons: createButtons(count),
+    ...node,
+  };
+}
+
+describe('paginateMenuNode', () => {
+  it('keeps menus up to the list-picker limit as a single node', () => {
+    const menu = createMenu(10);
+
+    expect(isPaginatedMenu(menu)).toBe(false);
+    expect(paginateMenuNode(menu, 'pt_BR')).toEqual([menu]);
+  });
+
+  it('does not paginate menus with url or phone buttons', () => {
+    const menu = createMenu(11);
+    menu.buttons?.push({ id: 'site', label: 'Site', value: 'https://example.com', kind: 'url' });
+
+    expect(isPaginatedMenu(menu)).toBe(false);
+  });
+
+  it('splits long menus into chained pages with a "more options" item', () => {
+    const pages = paginateMenuNode(createMenu(20), 'pt_BR');
+
+    expect(pages.map((page) => page.id)).toEqual([
+      'menu',
+      getMenuPageNodeId('menu', 2),
+      getMenuPageNodeId('menu', 3),
+    ]);
+    expect(pages.map((page) => page.buttons?.length)).toEqual([10, 10, 2]);
+
+    const moreOptions = pages[0]?.buttons?.at(-1);
+    expect(moreOptions?.id).toBe(MORE_OPTIONS_BUTTON_ID);
+    expect(moreOptions?.label).toBe('Mais opções');
+    expect(moreOptions?.nextNodeId).toBe('menu__page2');
+    expect(pages[2]?.buttons?.some((btn) => btn.id === MORE_OPTIONS_BUTTON_ID)).toBe(false);
+  });
+
+  it('labels "more options" in the locale of each translation', () => {
+    const pages = paginateMenuNode(
+      createMenu(11, { translations: { es: { content: 'Elige', buttons: {} } } }),
+      'en',
+    );
+
+    expect(pages[0]?.buttons?.at(-1)?.label).toBe('More options');
+    expect(pages[0]?.translations?.es?.buttons?.[MORE_OPTIONS_BUTTON_ID]).toBe('Más opciones');
+  });
+
+  it('assigns page template SIDs and collapses them back into the node', () => {
+    const menu = createMenu(20, { contentTemplateSid: 'HX1', pageTemplateSids: ['HX2', null] });
+    const pages = paginateMenuNode(menu, 'pt_BR');
+
+    expect(pages.map((page) => page.contentTemplateSid)).toEqual(['HX1', 'HX2', undefined]);
+
+    const published = pages.map((page, index) => ({ ...page, contentTemplateSid: `HXP${index}` }));
+    const collapsed = collapseMenuPages(menu, published);
+
+    expect(collapsed.id).toBe('menu');
+    expect(collapsed.buttons).toEqual(menu.buttons);
+    expect(collapsed.contentTemplateSid).toBe('HXP0');
+    expect(collapsed.pageTemplateSids).toEqual(['HXP1', 'HXP2']);
+  });
+});
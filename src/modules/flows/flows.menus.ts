@@ -0,0 +1,149 @@
+import { LIST_PICKER_MAX_BUTTONS } from './flows.content';
+import { isReplyButton } from './flows.graph';
+import type { FlowButton, FlowNode, FlowNodeTranslation } from './flows.types';
+
+// Item que leva à próxima página de um menu com mais de 10 opções
+export const MORE_OPTIONS_BUTTON_ID = 'more_options';
+
+// Label do item por idioma (sem região); idiomas fora da lista usam o português
+const DEFAULT_MORE_OPTIONS_LABEL = 'Mais opções';
+const MORE_OPTIONS_LABELS: Record<string, string> = {
+  es: 'Más opciones',
+  en: 'More options',
+};
+
+// Deslocamento no canvas entre páginas quando o flow tem posições próprias
+const PAGE_X_OFFSET = 500;
+
+function getMoreOptionsLabel(locale: string): string {
+  return MORE_OPTIONS_LABELS[locale.slice(0, 2)] ?? DEFAULT_MORE_OPTIONS_LABEL;
+}
+
+export function getMenuPageNodeId(nodeId: string, page: number): string {
+  return page === 1 ? nodeId : `${nodeId}__page${page}`;
+}
+
+/**
+ * Menus só de respostas acima do limite do list-picker viram páginas encadeadas.
+ */
+export function isPaginatedMenu(node: FlowNode): boolean {
+  const buttons = node.buttons ?? [];
+  return (
+    node.type === 'buttons' &&
+    !node.media &&
+    buttons.length > LIST_PICKER_MAX_BUTTONS &&
+    buttons.every(isReplyButton)
+  );
+}
+
+// Páginas de até 10 itens: todas menos a última reservam o último item para "mais opções"
+function splitIntoPages(buttons: FlowButton[]): FlowButton[][] {
+  const perPage = LIST_PICKER_MAX_BUTTONS - 1;
+  const pages: FlowButton[][] = [];
+  let rest = buttons;
+
+  while (rest.length > LIST_PICKER_MAX_BUTTONS) {
+    pages.push(rest.slice(0, perPage));
+    rest = rest.slice(perPage);
+  }
+
+  pages.push(rest);
+  return pages;
+}
+
+function getPageTranslation(
+  translation: FlowNodeTranslation,
+  locale: string,
+  page: number,
+  isLast: boolean,
+): FlowNodeTranslation {
+  const { pageTemplateSids, ...rest } = translation;
+
+  return {
+    ...rest,
+    buttons: isLast
+      ? rest.buttons
+      : { ...rest.buttons, [MORE_OPTIONS_BUTTON_ID]: getMoreOptionsLabel(locale) },
+    contentTemplateSid:
+      page === 1 ? translation.contentTemplateSid : (pageTemplateSids?.[page - 2] ?? undefined),
+  };
+}
+
+/**
+ * Páginas de um menu com mais de 10 opções; a primeira mantém o id do node e as demais
+ * usam os templates de pageTemplateSids (idioma padrão e traduções). Outros nodes: [node].
+ */
+export function paginateMenuNode(node: FlowNode, defaultLocale: string): FlowNode[] {
+  if (!isPaginatedMenu(node)) return [node];
+
+  const { pageTemplateSids, ...base } = node;
+  const pages = splitIntoPages(node.buttons ?? []);
+  const hasCanvasPosition = node.position.x !== 0 || node.position.y !== 0;
+
+  return pages.map((buttons, index): FlowNode => {
+    const page = index + 1;
+    const isLast = page === pages.length;
+
+    const moreOptions: FlowButton = {
+      id: MORE_OPTIONS_BUTTON_ID,
+      label: getMoreOptionsLabel(defaultLocale),
+      value: MORE_OPTIONS_BUTTON_ID,
+      nextNodeId: getMenuPageNodeId(node.id, page + 1),
+    };
+
+    return {
+      ...base,
+      id: getMenuPageNodeId(node.id, page),
+      // Sem posições no canvas o auto layout posiciona as páginas como filhas
+      position:
+        hasCanvasPosition && page > 1
+          ? { x: node.position.x + (page - 1) * PAGE_X_OFFSET, y: node.position.y }
+          : node.position,
+      buttons: isLast ? buttons : [...buttons, moreOptions],
+      contentTemplateSid:
+        page === 1 ? node.contentTemplateSid : (pageTemplateSids?.[page - 2] ?? undefined),
+      translations: node.translations
+        ? Object.fromEntries(
+            Object.entries(node.translations).map(([locale, translation]) => [
+              locale,
+              getPageTranslation(translation, locale, page, isLast),
+            ]),
+          )
+        : undefined,
+    };
+  });
+}
+
+export function paginateMenuNodes(nodes: FlowNode[], defaultLocale: string): FlowNode[] {
+  return nodes.flatMap((node) => paginateMenuNode(node, defaultLocale));
+}
+
+/**
+ * Inverso de paginateMenuNode para o publish: grava no node original os templates criados
+ * para cada página (null quando a página ficou sem template e usa o menu em texto).
+ */
+export function collapseMenuPages(node: FlowNode, pages: FlowNode[]): FlowNode {
+  const [first, ...rest] = pages;
+  if (!first) return node;
+  if (rest.length === 0) return first;
+
+  return {
+    ...node,
+    contentTemplateSid: first.contentTemplateSid,
+    pageTemplateSids: rest.map((page) => page.contentTemplateSid ?? null),
+    translations: node.translations
+      ? Object.fromEntries(
+          Object.entries(node.translations).map(([locale, translation]) => [
+            locale,
+            {
+              ...translation,
+              contentTemplateSid: first.translations?.[locale]?.contentTemplateSid,
+              pageTemplateSids: rest.map(
+                (page) => page.translations?.[locale]?.contentTemplateSid ?? null,
+              ),
+            },
+          ]),
+        )
+      : undefined,
+  };
+}
@@ -1,6 +1,13 @@
 import { types } from 'cassandra-driver';
 import { getClient } from '@/database';
-import type { Flow, FlowInput, FlowNode, FlowStatus, FlowUpdateInput } from './flows.types';
+import type {
+  Flow,
+  FlowInput,
+  FlowNode,
+  FlowPublishedSnapshot,
+  FlowStatus,
+  FlowUpdateInput,
+} from './flows.types';
 
 export class FlowsRepository {
   private get client() {
@@ -15,6 +22,27 @@ export class FlowsRepository {
     return result.rows.map((row) => this.mapRowToFlow(row));
   }
 
+  /**
+   * Todos os flows, paginando pelo driver (sem o teto do findAll). Para checagens de
+   * referência, em que um flow fora da primeira página não pode ser ignorado.
+   */
+  async findAllPages(pageSize = 500): Promise<Flow[]> {
+    const flows: Flow[] = [];
+    let pageState: string | undefined;
+
+    do {
+      const result = await this.client.execute('SELECT * FROM flows', [], {
+        prepare: true,
+        fetchSize: pageSize,
+        pageState,
+      });
+      flows.push(...result.rows.map((row) => this.mapRowToFlow(row)));
+      pageState = result.pageState;
+    } while (pageState);
+
+    return flows;
+  }
+
   async findById(id: string): Promise<Flow | null> {
     const query = 'SELECT * FROM flows WHERE id = ?';
     const result = await this.client.execute(query, [types.Uuid.fromString(id)], { prepare: true });
@@ -33,13 +61,15 @@ export class FlowsRepository {
     return this.findById(flowId.toString());
   }
 
-  async create(input: FlowInput): Promise<Flow> {
-    const id = types.Uuid.random();
+  async create(input: FlowInput, flowId?: string): Promise<Flow> {
+    const id = flowId ? types.Uuid.fromString(flowId) : types.Uuid.random();
     const now = new Date();
 
     const query = `
-      INSERT INTO flows (id, name, description, nodes, start_node_id, status, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO flows (
+        id, name, description, nodes, start_node_id, default_locale, status, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     await this.client.execute(
@@ -50,6 +80,7 @@ export class FlowsRepository {
         input.description || null,
         JSON.stringify(input.nodes),
         input.startNodeId,
+        input.defaultLocale || null,
         'draft' as FlowStatus,
         now,
         now,
@@ -63,13 +94,14 @@ export class FlowsRepository {
       description: input.description,
       nodes: input.nodes,
       start_node_id: input.startNodeId,
+      default_locale: input.defaultLocale,
       status: 'draft',
       created_at: now,
       updated_at: now,
     };
   }
 
-  async update(id: string, input: FlowUpdateInput): Promise<Flow | null> {
+  async update(id: string, input: FlowUpdateInput, status?: FlowStatus): Promise<Flow | null> {
     const existing = await this.findById(id);
     if (!existing) return null;
 
@@ -77,6 +109,11 @@ export class FlowsRepository {
     const updates: string[] = ['updated_at = ?'];
     const values: unknown[] = [now];
 
+    if (status !== undefined) {
+      updates.push('status = ?');
+      values.push(status);
+    }
+
     if (input.name !== undefined) {
       updates.push('name = ?');
       values.push(input.name);
@@ -97,6 +134,11 @@ export class FlowsRepository {
       values.push(input.startNodeId);
     }
 
+    if (input.defaultLocale !== undefined) {
+      updates.push('default_locale = ?');
+      values.push(input.defaultLocale);
+    }
+
     values.push(types.Uuid.fromString(id));
 
     const query = `UPDATE flows SET ${updates.join(', ')} WHERE id = ?`;
@@ -121,21 +163,7 @@ export class FlowsRepository {
     if (twilioFlowSid !== undefined) {
       updates.push('twilio_flow_sid = ?');
       values.push(twilioFlowSid);
-
-      // Atualizar lookup table
-      if (existing.twilio_flow_sid && existing.twilio_flow_sid !== twilioFlowSid) {
-        await this.client.execute('DELETE FROM flows_by_twilio_sid WHERE twilio_flow_sid = ?', [
-          existing.twilio_flow_sid,
-        ]);
-      }
-
-      if (twilioFlowSid) {
-        await this.client.execute(
-          'INSERT INTO flows_by_twilio_sid (twilio_flow_sid, flow_id) VALUES (?, ?)',
-          [twilioFlowSid, types.Uuid.fromString(id)],
-          { prepare: true },
-        );
-      }
+      await this.syncTwilioSidLookup(existing, twilioFlowSid);
     }
 
     if (errorMessage !== undefined) {
@@ -156,6 +184,89 @@ export class FlowsRepository {
     return this.findById(id);
   }
 
+  /**
+   * Promove o rascunho publicado a snapshot publicado em um único UPDATE. O rascunho só é
+   * sobrescrito (com os SIDs de templates gerados) se não foi editado desde `draftUpdatedAt`;
+   * caso contrário a edição é preservada e o flow fica com alterações pendentes.
+   */
+  async promoteDraft(
+    id: string,
+    snapshot: FlowPublishedSnapshot,
+    twilioFlowSid: string,
+    draftUpdatedAt: Date,
+  ): Promise<Flow | null> {
+    const existing = await this.findById(id);
+    if (!existing) return null;
+
+    await this.syncTwilioSidLookup(existing, twilioFlowSid);
+
+    const now = new Date();
+    const publishedValues = [
+      snapshot.name,
+      JSON.stringify(snapshot.nodes),
+      snapshot.start_node_id,
+      snapshot.default_locale || null,
+      twilioFlowSid,
+      now,
+    ];
+
+    const promoteQuery = `
+      UPDATE flows SET published_name = ?, published_nodes = ?, published_start_node_id = ?,
+        published_default_locale = ?, twilio_flow_sid = ?, published_at = ?, nodes = ?,
+        status = ?, updated_at = ?
+      WHERE id = ? IF updated_at = ?
+    `;
+    const result = await this.client.execute(
+      promoteQuery,
+      [
+        ...publishedValues,
+        JSON.stringify(snapshot.nodes),
+        'published' as FlowStatus,
+        now,
+        types.Uuid.fromString(id),
+        draftUpdatedAt,
+      ],
+      { prepare: true },
+    );
+
+    if (!result.wasApplied()) {
+      const pendingQuery = `
+        UPDATE flows SET published_name = ?, published_nodes = ?, published_start_node_id = ?,
+          published_default_locale = ?, twilio_flow_sid = ?, published_at = ?, status = ?
+        WHERE id = ?
+      `;
+      await this.client.execute(
+        pendingQuery,
+        [...publishedValues, 'published_with_changes' as FlowStatus, types.Uuid.fromString(id)],
+        { prepare: true },
+      );
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Tira o flow do ar: remove o snapshot publicado e volta para rascunho. O twilio_flow_sid
+   * continua (o flow segue existindo no Studio, em draft) para o próximo publish atualizá-lo.
+   */
+  async clearPublished(id: string): Promise<Flow | null> {
+    const query = `
+      UPDATE flows SET published_name = null, published_nodes = null,
+        published_start_node_id = null, published_default_locale = null, published_at = null,
+        status = ?, updated_at = ?
+      WHERE id = ?
+    `;
+    await this.client.execute(
+      query,
+      ['draft' as FlowStatus, new Date(), types.Uuid.fromString(id)],
+      {
+        prepare: true,
+      },
+    );
+
+    return this.findById(id);
+  }
+
   async delete(id: string): Promise<boolean> {
     const existing = await this.findById(id);
     if (!existing) return false;
@@ -176,22 +287,48 @@ export class FlowsRepository {
     return true;
   }
 
-  private mapRowToFlow(row: types.Row): Flow {
-    const nodesJson = row.get('nodes');
-    let nodes: FlowNode[] = [];
+  private async syncTwilioSidLookup(existing: Flow, twilioFlowSid: string): Promise<void> {
+    if (existing.twilio_flow_sid && existing.twilio_flow_sid !== twilioFlowSid) {
+      await this.client.execute('DELETE FROM flows_by_twilio_sid WHERE twilio_flow_sid = ?', [
+        existing.twilio_flow_sid,
+      ]);
+    }
 
+    if (twilioFlowSid) {
+      await this.client.execute(
+        'INSERT INTO flows_by_twilio_sid (twilio_flow_sid, flow_id) VALUES (?, ?)',
+        [twilioFlowSid, types.Uuid.fromString(existing.id)],
+        { prepare: true },
+      );
+    }
+  }
+
+  private parseNodes(nodesJson: string | null): FlowNode[] {
     try {
-      nodes = nodesJson ? JSON.parse(nodesJson) : [];
+      return nodesJson ? JSON.parse(nodesJson) : [];
     } catch {
-      nodes = [];
+      return [];
     }
+  }
+
+  private mapRowToFlow(row: types.Row): Flow {
+    const publishedNodes = row.get('published_nodes');
 
     return {
       id: row.get('id')?.toString() ?? '',
       name: row.get('name') ?? '',
       description: row.get('description') ?? undefined,
-      nodes,
+      nodes: this.parseNodes(row.get('nodes')),
       start_node_id: row.get('start_node_id') ?? '',
+      default_locale: row.get('default_locale') ?? undefined,
+      published: publishedNodes
+        ? {
+            name: row.get('published_name') ?? '',
+            nodes: this.parseNodes(publishedNodes),
+            start_node_id: row.get('published_start_node_id') ?? '',
+            default_locale: row.get('published_default_locale') ?? undefined,
+          }
+        : undefined,
       twilio_flow_sid: row.get('twilio_flow_sid') ?? undefined,
       status: (row.get('status') as FlowStatus) ?? 'draft',
       error_message: row.get('error_message') ?? undefined,
@@ -0,0 +1,146 @@
+import { Elysia, t } from 'elysia';
+import { schedulesService } from './flows.schedules.service';
+
+// Schema para janela semanal de atendimento
+const WindowSchema = t.Object({
+  day: t.Integer({ minimum: 0, maximum: 6 }),
+  start: t.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' }),
+  end: t.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' }),
+});
+
+const CreateScheduleSchema = t.Object({
+  name: t.String({ minLength: 1 }),
+  timezone: t.String({ minLength: 1 }),
+  windows: t.Array(WindowSchema, { minItems: 1 }),
+  holidays: t.Optional(t.Array(t.String({ pattern: '^\\d{4}-\\d{2}-\\d{2}$' }))),
+});
+
+const UpdateScheduleSchema = t.Object({
+  name: t.Optional(t.String({ minLength: 1 })),
+  timezone: t.Optional(t.String({ minLength: 1 })),
+  windows: t.Optional(t.Array(WindowSchema, { minItems: 1 })),
+  holidays: t.Optional(t.Array(t.String({ pattern: '^\\d{4}-\\d{2}-\\d{2}$' }))),
+});
+
+export const schedulesController = new Elysia({ prefix: '/flows/schedules' })
+  // Listar horários de atendimento
+  .get(
+    '/',
+    async ({ query }) => {
+      const schedules = await schedulesService.getAll(query.limit);
+      return { data: schedules };
+    },
+    {
+      query: t.Object({
+        limit: t.Optional(t.Numeric({ default: 100 })),
+      }),
+      detail: {
+        summary: 'List business hours schedules',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Obter horário por ID
+  .get(
+    '/:id',
+    async ({ params, set }) => {
+      const schedule = await schedulesService.getById(params.id);
+      if (!schedule) {
+        set.status = 404;
+        return { message: 'Schedule not found' };
+      }
+      return { data: schedule };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Get business hours schedule by ID',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Criar horário
+  .post(
+    '/',
+    async ({ body, set }) => {
+      try {
+        const schedule = await schedulesService.create(body);
+        set.status = 201;
+        return { data: schedule };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to create schedule';
+        return { message };
+      }
+    },
+    {
+      body: CreateScheduleSchema,
+      detail: {
+        summary: 'Create a business hours schedule',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Atualizar horário (retorna os flows no ar que precisam ser republicados)
+  .put(
+    '/:id',
+    async ({ params, body, set }) => {
+      try {
+        const schedule = await schedulesService.update(params.id, body);
+        if (!schedule) {
+          set.status = 404;
+          return { message: 'Schedule not found' };
+        }
+        const flowsToRepublish = await schedulesService.getFlowsToRepublish(params.id);
+        return { data: { ...schedule, flows_to_republish: flowsToRepublish } };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to update schedule';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: UpdateScheduleSchema,
+      detail: {
+        summary:
+          'Update business hours schedule by ID (published flows using it must be republished)',
+        tags: ['Flows'],
+      },
+    },
+  )
+
+  // Deletar horário (recusado se algum flow usa)
+  .delete(
+    '/:id',
+    async ({ params, set }) => {
+      try {
+        const deleted = await schedulesService.delete(params.id);
+        if (!deleted) {
+          set.status = 404;
+          return { message: 'Schedule not found' };
+        }
+        return { message: 'Schedule deleted successfully' };
+      } catch (err) {
+        set.status = 409;
+        const message = err instanceof Error ? err.message : 'Failed to delete schedule';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Delete business hours schedule by ID',
+        tags: ['Flows'],
+      },
+    },
+  );
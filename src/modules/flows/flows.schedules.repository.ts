@@ -0,0 +1,141 @@
+import { types } from 'cassandra-driver';
+import { getClient } from '@/database';
+import type {
+  BusinessHoursSchedule,
+  BusinessHoursScheduleInput,
+  BusinessHoursScheduleUpdateInput,
+  BusinessHoursWindow,
+} from './flows.types';
+
+export class SchedulesRepository {
+  private get client() {
+    return getClient();
+  }
+
+  async findAll(limit = 100): Promise<BusinessHoursSchedule[]> {
+    const asInt = Number.isFinite(limit) ? Math.floor(limit) : 100;
+    const safeLimit = Math.min(Math.max(asInt, 1), 1000);
+    const query = `SELECT * FROM business_hours_schedules LIMIT ${safeLimit}`;
+    const result = await this.client.execute(query);
+    return result.rows.map((row) => this.mapRowToSchedule(row));
+  }
+
+  async findById(id: string): Promise<BusinessHoursSchedule | null> {
+    const query = 'SELECT * FROM business_hours_schedules WHERE id = ?';
+    const result = await this.client.execute(query, [types.Uuid.fromString(id)], { prepare: true });
+    const row = result.rows[0];
+    return row ? this.mapRowToSchedule(row) : null;
+  }
+
+  async create(input: BusinessHoursScheduleInput): Promise<BusinessHoursSchedule> {
+    const id = types.Uuid.random();
+    const now = new Date();
+    const holidays = input.holidays ?? [];
+
+    const query = `
+      INSERT INTO business_hours_schedules (id, name, timezone, windows, holidays, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.client.execute(
+      query,
+      [
+        id,
+        input.name,
+        input.timezone,
+        JSON.stringify(input.windows),
+        JSON.stringify(holidays),
+        now,
+        now,
+      ],
+      { prepare: true },
+    );
+
+    return {
+      id: id.toString(),
+      name: input.name,
+      timezone: input.timezone,
+      windows: input.windows,
+      holidays,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  async update(
+    id: string,
+    input: BusinessHoursScheduleUpdateInput,
+  ): Promise<BusinessHoursSchedule | null> {
+    const existing = await this.findById(id);
+    if (!existing) return null;
+
+    const updates: string[] = ['updated_at = ?'];
+    const values: unknown[] = [new Date()];
+
+    if (input.name !== undefined) {
+      updates.push('name = ?');
+      values.push(input.name);
+    }
+
+    if (input.timezone !== undefined) {
+      updates.push('timezone = ?');
+      values.push(input.timezone);
+    }
+
+    if (input.windows !== undefined) {
+      updates.push('windows = ?');
+      values.push(JSON.stringify(input.windows));
+    }
+
+    if (input.holidays !== undefined) {
+      updates.push('holidays = ?');
+      values.push(JSON.stringify(input.holidays));
+    }
+
+    values.push(types.Uuid.fromString(id));
+
+    const query = `UPDATE business_hours_schedules SET ${updates.join(', ')} WHERE id = ?`;
+    await this.client.execute(query, values, { prepare: true });
+
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.findById(id);
+    if (!existing) return false;
+
+    const query = 'DELETE FROM business_hours_schedules WHERE id = ?';
+    await this.client.execute(query, [types.Uuid.fromString(id)], { prepare: true });
+
+    return true;
+  }
+
+  private mapRowToSchedule(row: types.Row): BusinessHoursSchedule {
+    let windows: BusinessHoursWindow[] = [];
+    let holidays: string[] = [];
+
+    try {
+      windows = JSON.parse(row.get('windows') || '[]');
+    } catch {
+      windows = [];
+    }
+
+    try {
+      holidays = JSON.parse(row.get('holidays') || '[]');
+    } catch {
+      holidays = [];
+    }
+
+    return {
+      id: row.get('id')?.toString() ?? '',
+      name: row.get('name') ?? '',
+      timezone: row.get('timezone') ?? 'UTC',
+      windows,
+      holidays,
+      created_at: row.get('created_at') ?? new Date(),
+      updated_at: row.get('updated_at') ?? new Date(),
+    };
+  }
+}
+
+export const schedulesRepository = new SchedulesRepository();
@@ -0,0 +1,137 @@
+import { isValidDate, isValidTime, isValidTimezone, timeToNumber } from './flows.hours';
+import { flowsRepository } from './flows.repository';
+import { schedulesRepository } from './flows.schedules.repository';
+import type {
+  BusinessHoursSchedule,
+  BusinessHoursScheduleInput,
+  BusinessHoursScheduleUpdateInput,
+  BusinessHoursWindow,
+  Flow,
+  FlowNode,
+} from './flows.types';
+
+function usesSchedule(nodes: FlowNode[], scheduleId: string): boolean {
+  return nodes.some((node) => node.type === 'hours' && node.hours?.scheduleId === scheduleId);
+}
+
+export class SchedulesService {
+  async getAll(limit?: number): Promise<BusinessHoursSchedule[]> {
+    return schedulesRepository.findAll(limit);
+  }
+
+  async getById(id: string): Promise<BusinessHoursSchedule | null> {
+    return schedulesRepository.findById(id);
+  }
+
+  async create(input: BusinessHoursScheduleInput): Promise<BusinessHoursSchedule> {
+    this.validateSchedule(input);
+    return schedulesRepository.create(input);
+  }
+
+  async update(
+    id: string,
+    input: BusinessHoursScheduleUpdateInput,
+  ): Promise<BusinessHoursSchedule | null> {
+    const existing = await schedulesRepository.findById(id);
+    if (!existing) return null;
+
+    this.validateSchedule({
+      name: input.name ?? existing.name,
+      timezone: input.timezone ?? existing.timezone,
+      windows: input.windows ?? existing.windows,
+      holidays: input.holidays ?? existing.holidays,
+    });
+
+    return schedulesRepository.update(id, input);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await schedulesRepository.findById(id);
+    if (!existing) return false;
+
+    // Rascunho ou versão no ar: a publicação do rascunho também precisa do horário
+    const flows = await flowsRepository.findAllPages();
+    const dependents = flows.filter(
+      (flow) => usesSchedule(flow.nodes, id) || usesSchedule(flow.published?.nodes ?? [], id),
+    );
+
+    if (dependents.length > 0) {
+      const names = dependents.map((flow) => `"${flow.name}" (${flow.id})`).join(', ');
+      throw new Error(`Schedule is used by flows: ${names}`);
+    }
+
+    return schedulesRepository.delete(id);
+  }
+
+  /**
+   * Flows no ar que usam o horário: janelas e feriados são compilados na publicação, então
+   * uma alteração só vale para eles depois de republicar.
+   */
+  async getFlowsToRepublish(id: string): Promise<Array<Pick<Flow, 'id' | 'name'>>> {
+    const flows = await flowsRepository.findAllPages();
+    return flows
+      .filter((flow) => usesSchedule(flow.published?.nodes ?? [], id))
+      .map((flow) => ({ id: flow.id, name: flow.name }));
+  }
+
+  /**
+   * Carrega os horários referenciados pelos nodes "hours" de um flow.
+   */
+  async resolveForNodes(nodes: FlowNode[]): Promise<Map<string, BusinessHoursSchedule>> {
+    const schedules = new Map<string, BusinessHoursSchedule>();
+
+    for (const node of nodes) {
+      const scheduleId = node.type === 'hours' ? node.hours?.scheduleId : undefined;
+      if (!scheduleId || schedules.has(scheduleId)) continue;
+
+      const schedule = await schedulesRepository.findById(scheduleId);
+      if (!schedule) {
+        throw new Error(`Business hours schedule "${scheduleId}" not found`);
+      }
+      schedules.set(scheduleId, schedule);
+    }
+
+    return schedules;
+  }
+
+  private validateSchedule(input: BusinessHoursScheduleInput): void {
+    if (!input.name || input.name.trim().length === 0) {
+      throw new Error('Schedule name is required');
+    }
+
+    if (!isValidTimezone(input.timezone)) {
+      throw new Error(`Invalid timezone "${input.timezone}"`);
+    }
+
+    if (input.windows.length === 0) {
+      throw new Error('Schedule must have at least one window');
+    }
+
+    for (const window of input.windows) {
+      this.validateWindow(window);
+    }
+
+    for (const holiday of input.holidays ?? []) {
+      if (!isValidDate(holiday)) {
+        throw new Error(`Invalid holiday "${holiday}" (expected YYYY-MM-DD)`);
+      }
+    }
+  }
+
+  private validateWindow(window: BusinessHoursWindow): void {
+    if (!Number.isInteger(window.day) || window.day < 0 || window.day > 6) {
+      throw new Error(`Invalid window day "${window.day}" (expected 0-6)`);
+    }
+
+    if (!isValidTime(window.start) || !isValidTime(window.end)) {
+      throw new Error(`Invalid window time "${window.start}-${window.end}" (expected HH:mm)`);
+    }
+
+    // Janelas que atravessam a meia-noite devem ser divididas em duas
+    if (timeToNumber(window.end) <= timeToNumber(window.start)) {
+      throw new Error(`Window end must be after start (${window.start}-${window.end})`);
+    }
+  }
+}
+
+export const schedulesService = new SchedulesService();
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, spyOn } from 'bun:test';
+import { twilioContentClient } from './flows.content';
+import { flowsService } from './flows.service';
+import type { Flow, FlowNode } from './flows.types';
+
+function createFlow(nodes: FlowNode[]): Flow {
+  return {
+    id: 'flow-1',
+    name: 'Teste',
+    nodes,
+    start_node_id: nodes[0]?.id ?? '',
+    status: 'draft',
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+function createMenu(content: string, label = 'Vendas'): FlowNode {
+  return {
+    id: 'menu',
+    type: 'buttons',
+    position: { x: 0, y: 0 },
+    content,
+    buttons: [
+      { id: 'a', label, value: 'vendas', nextNodeId: 'menu' },
+      { id: 'b', label: 'Suporte', value: 'suporte', nextNodeId: 'menu' },
+    ],
+  };
+}
+
+// Etapas privadas do publish, chamadas direto (sem Studio)
+const service = flowsService as unknown as {
+  createContentTemplatesForButtons(flow: Flow): Promise<FlowNode[]>;
+  createContentTemplatesForText(flow: Flow, nodes: FlowNode[]): Promise<FlowNode[]>;
+};
+
+// Sem banco conectado o cache e o registro falham em silêncio; só a Content API é simulada
+describe('FlowsService Content Templates', () => {
+  const createQuickReply = spyOn(twilioContentClient, 'createQuickReplyTemplate');
+
+  afterEach(() => {
+    createQuickReply.mockReset();
+  });
+
+  it('creates a template for static button menus', async () => {
+    createQuickReply.mockResolvedValue({ success: true, contentSid: 'HX123' });
+
+    const nodes = await service.createContentTemplatesForButtons(
+      createFlow([createMenu('Escolha:')]),
+    );
+
+    expect(createQuickReply).toHaveBeenCalledTimes(1);
+    expect(nodes[0]?.contentTemplateSid).toBe('HX123');
+  });
+
+  it('keeps menus with flow placeholders on the text fallback', async () => {
+    for (const menu of [
+      createMenu('Olá {{var.nome}}, escolha:'),
+      createMenu('Escolha:', 'Pedido {{http.pedido.codigo}}'),
+    ]) {
+      const nodes = await service.createContentTemplatesForButtons(createFlow([menu]));
+      expect(nodes[0]?.contentTemplateSid).toBeUndefined();
+    }
+
+    expect(createQuickReply).not.toHaveBeenCalled();
+  });
+});
+
+describe('FlowsService text Content Templates', () => {
+  const createText = spyOn(twilioContentClient, 'createTextTemplate');
+
+  afterEach(() => {
+    createText.mockReset();
+  });
+
+  function createMessage(content: string): FlowNode {
+    return {
+      id: 'aviso',
+      type: 'message',
+      position: { x: 0, y: 0 },
+      content,
+      contentVariables: { '1': { source: 'trigger', path: 'message.ProfileName', sample: 'Ana' } },
+    };
+  }
+
+  it('creates a template for messages bound only to {{n}} variables', async () => {
+    createText.mockResolvedValue({ success: true, contentSid: 'HX456' });
+
+    const nodes = [createMessage('Olá {{1}}!')];
+    const updated = await service.createContentTemplatesForText(createFlow(nodes), nodes);
+
+    expect(createText).toHaveBeenCalledTimes(1);
+    expect(updated[0]?.contentTemplateSid).toBe('HX456');
+  });
+
+  it('skips the template when the content also uses flow placeholders', async () => {
+    const nodes = [createMessage('Olá {{1}}, seu pedido {{var.pedido}} saiu')];
+    const updated = await service.createContentTemplatesForText(createFlow(nodes), nodes);
+
+    expect(createText).not.toHaveBeenCalled();
+    expect(updated[0]?.contentTemplateSid).toBeUndefined();
+  });
+});
@@ -1,24 +1,145 @@
-import { createHash } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
 import { twilioCacheRepository } from '@/modules/twilio-cache/twilio-cache.repository';
 import { createLogger } from '@/shared/utils/logger';
-import { flowBuilder } from './flows.builder';
-import { twilioContentClient } from './flows.content';
+import { contentApprovalsRepository } from './flows.approvals.repository';
+import { flowBuilder, hasFlowPlaceholders } from './flows.builder';
+import { assertFlowBundle, createFlowBundle } from './flows.bundle';
+import type { ButtonsTemplateType, ContentTemplateResponse } from './flows.content';
+import {
+  getButtonsTemplateType,
+  getContentTemplateBody,
+  getContentVariableKeys,
+  twilioContentClient,
+} from './flows.content';
+import { contentTemplatesRepository } from './flows.content.repository';
+import { diffFlowSnapshots, diffFlowVersions, hasSnapshotChanges } from './flows.diff';
+import { getSubflowIds, remapNodeIds } from './flows.graph';
+import { flowImporter } from './flows.importer';
+import { lintFlow } from './flows.linter';
+import {
+  DEFAULT_FLOW_LOCALE,
+  getFlowDefaultLocale,
+  LOCALE_PATTERN,
+  localizeNode,
+  stripTemplateSids,
+} from './flows.locales';
+import {
+  collapseMenuPages,
+  isPaginatedMenu,
+  MORE_OPTIONS_BUTTON_ID,
+  paginateMenuNode,
+  paginateMenuNodes,
+} from './flows.menus';
 import { flowsRepository } from './flows.repository';
+import { schedulesService } from './flows.schedules.service';
+import { flowSimulator } from './flows.simulator';
 import type { TaskRouterTaskChannel, TaskRouterWorkflow } from './flows.taskrouter';
 import { twilioTaskRouterClient } from './flows.taskrouter';
+import type { FlowTemplate, FlowTemplateParams } from './flows.templates';
+import { FLOW_TEMPLATES, getFlowTemplate } from './flows.templates';
 import { twilioStudioClient } from './flows.twilio';
 import type {
+  ContentApprovalRecord,
+  ContentTemplateInput,
+  ContentTemplatePurgeResult,
+  ContentTemplateRecord,
   Flow,
+  FlowBuildContext,
+  FlowBundle,
+  FlowBundleImportResult,
+  FlowButton,
+  FlowImportIssue,
+  FlowImportResult,
   FlowInput,
+  FlowLintResult,
   FlowNode,
+  FlowPendingChanges,
   FlowPreview,
+  FlowPublishedSnapshot,
+  FlowPublishOptions,
   FlowPublishResult,
+  FlowRollbackResult,
+  FlowSimulationInput,
+  FlowSimulationResult,
+  FlowStatus,
+  FlowTemplateApproval,
   FlowUpdateInput,
+  FlowVersion,
+  FlowVersionDiff,
+  FlowVersionReason,
   TwilioFlowDefinition,
+  WhatsAppApprovalCategory,
 } from './flows.types';
+import { flowVersionsRepository } from './flows.versions.repository';
 
 const logger = createLogger('FlowsService');
 
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// Variáveis que o FlowBuilder já usa internamente (bot_init / botões com Content Template)
+const RESERVED_VARIABLES = new Set(['address', 'response_id', 'locale']);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Template twilio/media do WhatsApp e media_url do Studio levam uma única mídia
+const MAX_MEDIA_URLS = 1;
+
+// Limites de botões call-to-action e de card da Content API
+const MAX_URL_BUTTONS = 2;
+const MAX_PHONE_BUTTONS = 1;
+const MAX_CARD_ACTIONS = 3;
+
+const PHONE_NUMBER_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+// Entradas do twilio_cache que apontam para templates criados no publish
+const CONTENT_TEMPLATE_CACHE_PREFIX = 'content-template:';
+
+// Listas cacheadas por listContentTemplates (uma por pageSize, de 1 a MAX)
+const CONTENT_TEMPLATE_LIST_CACHE_PREFIX = 'content-templates:list:';
+const CONTENT_TEMPLATE_LIST_MAX_PAGE_SIZE = 200;
+
+// Limites de botões por tipo de template criado manualmente
+const TEMPLATE_MAX_BUTTONS: Partial<Record<ContentTemplateInput['type'], number>> = {
+  'quick-reply': 3,
+  'list-picker': 10,
+  card: MAX_CARD_ACTIONS,
+};
+
+// Flow da árvore de publicação com os Content Templates já criados
+type PreparedPublish = {
+  flow: Flow;
+  nodes: FlowNode[];
+};
+
+type ContentTemplateCacheValue = {
+  contentSid: string;
+  templateType?: string;
+  templateName?: string;
+  nodeId?: string;
+  flowName?: string;
+  language?: string;
+};
+
+// Nodes enviados por send-message / send-and-wait-for-reply, que aceitam content_variables
+const CONTENT_VARIABLE_NODE_TYPES = new Set<FlowNode['type']>([
+  'message',
+  'question',
+  'buttons',
+  'media',
+]);
+
+// Caminho de flow.variables / trigger: segmentos separados por ponto (ex.: message.ProfileName)
+const CONTENT_VARIABLE_PATH_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z0-9_]+)*$/;
+
+// Nodes que enviam texto ao cliente e podem ter conteúdo por idioma
+const TRANSLATABLE_NODE_TYPES = new Set<FlowNode['type']>([
+  'message',
+  'question',
+  'buttons',
+  'media',
+  'end',
+]);
+
 export class FlowsService {
   private getTwilioCacheTtlMs(): number {
     const envValue = Number(process.env.TWILIO_CACHE_TTL_MS);
@@ -50,11 +171,14 @@ export class FlowsService {
   }
 
   private buildContentTemplateCacheKey(
-    templateType: 'quick-reply' | 'list-picker',
+    templateType: ButtonsTemplateType,
     body: string,
-    buttons: Array<{ id: string; label: string; value: string }>,
+    buttons: FlowButton[],
     language = 'pt_BR',
+    media: string[] = [],
+    variables: Record<string, string> = {},
   ): string {
+    // Campos opcionais só entram no hash quando presentes, preservando as chaves já gravadas
     const normalized = JSON.stringify({
       templateType,
       language,
@@ -63,11 +187,50 @@ export class FlowsService {
         id: b.id,
         label: b.label,
         value: b.value,
+        ...(b.kind && b.kind !== 'reply' ? { kind: b.kind } : {}),
+        ...(b.description ? { description: b.description } : {}),
+        ...(b.section ? { section: b.section } : {}),
       })),
+      ...(media.length > 0 ? { media } : {}),
+      ...(Object.keys(variables).length > 0 ? { variables } : {}),
+    });
+
+    const hash = createHash('sha256').update(normalized).digest('hex');
+    return `${CONTENT_TEMPLATE_CACHE_PREFIX}${templateType}:${hash}`;
+  }
+
+  private buildMediaTemplateCacheKey(
+    caption: string,
+    urls: string[],
+    language = 'pt_BR',
+    variables: Record<string, string> = {},
+  ): string {
+    const normalized = JSON.stringify({
+      templateType: 'media',
+      language,
+      caption,
+      urls,
+      ...(Object.keys(variables).length > 0 ? { variables } : {}),
     });
+    const hash = createHash('sha256').update(normalized).digest('hex');
+    return `${CONTENT_TEMPLATE_CACHE_PREFIX}media:${hash}`;
+  }
 
+  private buildTextTemplateCacheKey(
+    body: string,
+    language: string,
+    variables: Record<string, string>,
+  ): string {
+    const normalized = JSON.stringify({ templateType: 'text', language, body, variables });
     const hash = createHash('sha256').update(normalized).digest('hex');
-    return `content-template:${templateType}:${hash}`;
+    return `${CONTENT_TEMPLATE_CACHE_PREFIX}text:${hash}`;
+  }
+
+  // Placeholder -> valor de exemplo, para a seção "variables" do template
+  private getTemplateVariables(node: FlowNode): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(node.contentVariables ?? {}).map(([key, binding]) => [key, binding.sample]),
+    );
   }
 
   async getTaskRouterWorkflows(options?: { refresh?: boolean; limit?: number }): Promise<{
@@ -165,8 +328,11 @@ export class FlowsService {
     cached: boolean;
     cachedAt?: Date;
   }> {
-    const pageSize = Math.min(Math.max(Math.floor(options?.pageSize ?? 50), 1), 200);
-    const cacheKey = `content-templates:list:${pageSize}`;
+    const pageSize = Math.min(
+      Math.max(Math.floor(options?.pageSize ?? 50), 1),
+      CONTENT_TEMPLATE_LIST_MAX_PAGE_SIZE,
+    );
+    const cacheKey = `${CONTENT_TEMPLATE_LIST_CACHE_PREFIX}${pageSize}`;
     const ttlMs = this.getTwilioCacheTtlMs();
 
     if (!options?.refresh) {
@@ -196,351 +362,1938 @@ export class FlowsService {
     };
   }
 
-  async getAll(limit?: number): Promise<Flow[]> {
-    return flowsRepository.findAll(limit);
+  async getContentTemplate(contentSid: string): Promise<ContentTemplateResponse | null> {
+    const result = await twilioContentClient.getTemplate(contentSid);
+    if (result.notFound) return null;
+    if (!result.success || !result.template) {
+      throw new Error(result.error || 'Failed to fetch content template');
+    }
+    return result.template;
   }
 
-  async getById(id: string): Promise<Flow | null> {
-    return flowsRepository.findById(id);
-  }
+  /**
+   * Cria um Content Template avulso (fora dos flows). Não entra no registro de templates do
+   * serviço, então a limpeza de órfãos nunca o apaga.
+   */
+  async createContentTemplate(input: ContentTemplateInput): Promise<{ contentSid: string }> {
+    this.validateContentTemplateInput(input);
+
+    const buttons = (input.buttons ?? []).map((btn) => ({ ...btn, kind: btn.kind ?? 'reply' }));
+    const mediaUrls = input.mediaUrls ?? [];
+    const language = input.language || DEFAULT_FLOW_LOCALE;
+
+    let result: { success: boolean; contentSid?: string; error?: string };
+    switch (input.type) {
+      case 'text':
+        result = await twilioContentClient.createTextTemplate(
+          input.friendlyName,
+          input.body,
+          language,
+        );
+        break;
+      case 'quick-reply':
+        result = await twilioContentClient.createQuickReplyTemplate(
+          input.friendlyName,
+          input.body,
+          buttons,
+          language,
+        );
+        break;
+      case 'list-picker':
+        result = await twilioContentClient.createListPickerTemplate(
+          input.friendlyName,
+          input.body,
+          buttons,
+          language,
+        );
+        break;
+      case 'media':
+        result = await twilioContentClient.createMediaTemplate(
+          input.friendlyName,
+          input.body,
+          mediaUrls,
+          language,
+        );
+        break;
+      case 'card':
+        result = await twilioContentClient.createCardTemplate(
+          input.friendlyName,
+          input.body,
+          buttons,
+          mediaUrls,
+          language,
+        );
+        break;
+    }
 
-  async getByTwilioSid(twilioFlowSid: string): Promise<Flow | null> {
-    return flowsRepository.findByTwilioSid(twilioFlowSid);
-  }
+    if (!result.success || !result.contentSid) {
+      throw new Error(result.error || 'Failed to create content template');
+    }
 
-  async create(input: FlowInput): Promise<Flow> {
-    this.validateFlowInput(input);
-    return flowsRepository.create(input);
+    await this.invalidateContentTemplateList();
+    return { contentSid: result.contentSid };
   }
 
-  async update(id: string, input: FlowUpdateInput): Promise<Flow | null> {
-    const existing = await flowsRepository.findById(id);
-    if (!existing) return null;
+  /**
+   * Deleta um template na Twilio. Templates usados por algum flow (rascunho, publicado ou
+   * versão salva) são recusados para não quebrar o flow no próximo envio ou rollback.
+   */
+  async deleteContentTemplate(contentSid: string): Promise<void> {
+    const referenced = await this.getReferencedContentSids();
+    if (referenced.has(contentSid)) {
+      throw new Error(`Content template "${contentSid}" is referenced by a flow`);
+    }
 
-    if (input.nodes) {
-      this.validateNodes(input.nodes, input.startNodeId || existing.start_node_id);
+    const deletion = await twilioContentClient.deleteTemplate(contentSid);
+    if (!deletion.success) {
+      throw new Error(deletion.error || 'Failed to delete content template');
+    }
+
+    // Template gerado no publish: sem a entrada de cache o SID apagado não é reaproveitado
+    const registered = await contentTemplatesRepository.findBySid(contentSid);
+    if (registered) {
+      await twilioCacheRepository.delete(registered.cache_key);
+      await contentTemplatesRepository.delete(contentSid);
     }
 
-    return flowsRepository.update(id, input);
+    await this.invalidateContentTemplateList();
   }
 
-  async delete(id: string): Promise<boolean> {
-    const existing = await flowsRepository.findById(id);
-    if (!existing) return false;
+  // As chaves possíveis são conhecidas (uma por pageSize): apaga direto, sem varrer o cache
+  private async invalidateContentTemplateList(): Promise<void> {
+    try {
+      const keys = Array.from(
+        { length: CONTENT_TEMPLATE_LIST_MAX_PAGE_SIZE },
+        (_, index) => `${CONTENT_TEMPLATE_LIST_CACHE_PREFIX}${index + 1}`,
+      );
+      await twilioCacheRepository.deleteMany(keys);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'unknown error';
+      logger.warn(`Failed to invalidate content template list cache: ${message}`);
+    }
+  }
 
-    // Se o flow está publicado na Twilio, deletar lá também
-    if (existing.twilio_flow_sid) {
-      const result = await twilioStudioClient.deleteFlow(existing.twilio_flow_sid);
-      if (!result.success) {
-        throw new Error(`Failed to delete flow from Twilio: ${result.error}`);
-      }
+  private validateContentTemplateInput(input: ContentTemplateInput): void {
+    const buttons = input.buttons ?? [];
+    const mediaUrls = input.mediaUrls ?? [];
+    const maxButtons = TEMPLATE_MAX_BUTTONS[input.type];
+
+    if (maxButtons === undefined && buttons.length > 0) {
+      throw new Error(`${input.type} templates do not support buttons`);
     }
 
-    return flowsRepository.delete(id);
-  }
+    if (maxButtons !== undefined && buttons.length > maxButtons) {
+      throw new Error(`${input.type} templates support a maximum of ${maxButtons} buttons`);
+    }
 
-  async preview(id: string): Promise<FlowPreview | null> {
-    const flow = await flowsRepository.findById(id);
-    if (!flow) return null;
+    if ((input.type === 'quick-reply' || input.type === 'list-picker') && buttons.length === 0) {
+      throw new Error(`${input.type} templates require at least one button`);
+    }
 
-    const twilioDefinition = flowBuilder.build(flow);
+    if (input.type === 'card' && buttons.length === 0 && mediaUrls.length === 0) {
+      throw new Error('card templates require at least one button or media URL');
+    }
 
-    return {
-      flow,
-      twilioDefinition,
-    };
-  }
+    if (input.type === 'media' && mediaUrls.length === 0) {
+      throw new Error('media templates require at least one media URL');
+    }
 
-  async buildDefinition(flow: Flow): Promise<TwilioFlowDefinition> {
-    return flowBuilder.build(flow);
-  }
+    if (input.type !== 'media' && input.type !== 'card' && mediaUrls.length > 0) {
+      throw new Error(`${input.type} templates do not support media`);
+    }
 
-  async publish(id: string): Promise<FlowPublishResult> {
-    const flow = await flowsRepository.findById(id);
-    if (!flow) {
-      return { success: false, error: 'Flow not found' };
+    if (mediaUrls.length > MAX_MEDIA_URLS) {
+      throw new Error(`Templates support a maximum of ${MAX_MEDIA_URLS} media URL`);
     }
 
-    if (!twilioStudioClient.isConfigured()) {
-      return { success: false, error: 'Twilio credentials not configured' };
+    for (const url of mediaUrls) {
+      if (!/^https?:\/\//i.test(url)) {
+        throw new Error(`Invalid media URL "${url}"`);
+      }
     }
 
-    // Criar Content Templates automaticamente para nodes com botões
-    const nodesWithTemplates = await this.createContentTemplatesForButtons(flow);
+    for (const button of buttons) {
+      const kind = button.kind ?? 'reply';
 
-    // Criar uma cópia do flow com os Content Template SIDs
-    const flowWithTemplates: Flow = {
-      ...flow,
-      nodes: nodesWithTemplates,
-    };
+      if (kind !== 'reply' && input.type !== 'card') {
+        throw new Error(`Button "${button.label}" is a ${kind} button, supported only in cards`);
+      }
 
-    const definition = flowBuilder.build(flowWithTemplates);
+      if (kind === 'url' && !/^https:\/\//i.test(button.value)) {
+        throw new Error(`Button "${button.label}" requires an https URL`);
+      }
 
-    // Validar antes de publicar
-    const validation = await twilioStudioClient.validateFlow(flow.name, definition);
-    if (!validation.valid) {
-      await flowsRepository.updateStatus(
-        id,
-        'error',
-        undefined,
-        validation.errors?.join(', ') || 'Validation failed',
-      );
-      return {
-        success: false,
-        error: validation.errors?.join(', ') || 'Validation failed',
-      };
+      if (kind === 'phone' && !PHONE_NUMBER_PATTERN.test(button.value)) {
+        throw new Error(`Button "${button.label}" requires an E.164 phone number`);
+      }
     }
 
-    let result: { success: boolean; flowSid?: string; error?: string };
+    const urlCount = buttons.filter((btn) => btn.kind === 'url').length;
+    const phoneCount = buttons.filter((btn) => btn.kind === 'phone').length;
 
-    if (flow.twilio_flow_sid) {
-      // Atualizar flow existente
-      const updateResult = await twilioStudioClient.updateFlow(
-        flow.twilio_flow_sid,
-        definition,
-        'published',
-        `Published at ${new Date().toISOString()}`,
+    if (urlCount > MAX_URL_BUTTONS || phoneCount > MAX_PHONE_BUTTONS) {
+      throw new Error(
+        `Templates support at most ${MAX_URL_BUTTONS} URL and ${MAX_PHONE_BUTTONS} phone buttons`,
       );
-      result = {
-        success: updateResult.success,
-        flowSid: flow.twilio_flow_sid,
-        error: updateResult.error,
-      };
-    } else {
-      // Criar novo flow
-      result = await twilioStudioClient.createFlow(flow.name, definition, 'published');
     }
+  }
 
-    if (result.success && result.flowSid) {
-      // Atualizar os nodes com os Content Template SIDs no banco
-      await flowsRepository.update(id, { nodes: nodesWithTemplates });
-      await flowsRepository.updateStatus(id, 'published', result.flowSid);
-      return { success: true, twilioFlowSid: result.flowSid };
+  // ============================================
+  // Registro de Content Templates (limpeza de órfãos)
+  // ============================================
+
+  private async registerContentTemplate(
+    cacheKey: string,
+    value: ContentTemplateCacheValue,
+    createdAt = new Date(),
+  ): Promise<void> {
+    try {
+      await contentTemplatesRepository.save({
+        content_sid: value.contentSid,
+        cache_key: cacheKey,
+        template_type: value.templateType ?? '',
+        template_name: value.templateName ?? '',
+        node_id: value.nodeId,
+        flow_name: value.flowName,
+        language: value.language,
+        created_at: createdAt,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'unknown error';
+      logger.warn(`Failed to register Content Template "${value.contentSid}": ${message}`);
     }
+  }
 
-    await flowsRepository.updateStatus(id, 'error', flow.twilio_flow_sid, result.error);
-    return { success: false, error: result.error };
+  /**
+   * Registra templates que só existem no twilio_cache (criados antes do registro).
+   */
+  private async syncContentTemplateRegistry(): Promise<void> {
+    const [entries, registered] = await Promise.all([
+      twilioCacheRepository.listByPrefix(CONTENT_TEMPLATE_CACHE_PREFIX),
+      contentTemplatesRepository.findAllPages(),
+    ]);
+    const registeredSids = new Set(registered.map((record) => record.content_sid));
+
+    for (const entry of entries) {
+      let value: ContentTemplateCacheValue;
+      try {
+        value = JSON.parse(entry.value) as ContentTemplateCacheValue;
+      } catch {
+        continue;
+      }
+
+      if (!value.contentSid || registeredSids.has(value.contentSid)) continue;
+
+      await this.registerContentTemplate(entry.key, value, entry.updatedAt);
+      registeredSids.add(value.contentSid);
+    }
   }
 
   /**
-   * Cria Content Templates na Twilio para todos os nodes do tipo 'buttons'
-   * que ainda não têm um contentTemplateSid definido.
+   * SIDs usados por algum flow (rascunho ou snapshot publicado) ou por alguma versão salva,
+   * que um rollback pode restaurar. Idioma padrão, traduções e widgets da definition gerada.
    */
-  private async createContentTemplatesForButtons(flow: Flow): Promise<FlowNode[]> {
-    const updatedNodes: FlowNode[] = [];
+  private async getReferencedContentSids(): Promise<Set<string>> {
+    const [flows, versions] = await Promise.all([
+      flowsRepository.findAllPages(),
+      flowVersionsRepository.findAllPages(),
+    ]);
+    const sids = new Set<string>();
+
+    const nodeGroups = [
+      ...flows.flatMap((flow) => [flow.nodes, flow.published?.nodes ?? []]),
+      ...versions.map((version) => version.nodes),
+    ];
+
+    for (const node of nodeGroups.flat()) {
+      for (const source of [node, ...Object.values(node.translations ?? {})]) {
+        for (const sid of [source.contentTemplateSid, ...(source.pageTemplateSids ?? [])]) {
+          if (sid) sids.add(sid);
+        }
+      }
+    }
 
-    for (const node of flow.nodes) {
-      // Se é um node de botões e não tem Content Template ainda
-      if (
-        node.type === 'buttons' &&
-        node.buttons &&
-        node.buttons.length > 0 &&
-        !node.contentTemplateSid
-      ) {
-        // Twilio Content API limita a 3 botões para quick-reply
-        if (node.buttons.length <= 3) {
-          const templateButtons = node.buttons.map((btn) => ({
-            id: btn.id,
-            label: btn.label,
-            value: btn.value,
-          }));
-
-          const cacheKey = this.buildContentTemplateCacheKey(
-            'quick-reply',
-            node.content,
-            templateButtons,
-          );
+    for (const widget of versions.flatMap((version) => version.definition?.states ?? [])) {
+      const sid = widget.properties.content_sid;
+      if (typeof sid === 'string' && sid) sids.add(sid);
+    }
 
-          const cached = await this.getCachedJson<{ contentSid: string }>(cacheKey);
-          const cachedSid = cached?.value?.contentSid;
-          if (cachedSid) {
-            updatedNodes.push({
-              ...node,
-              contentTemplateSid: cachedSid,
-            });
-            continue;
-          }
+    return sids;
+  }
 
-          const templateName = `${flow.name}_${node.id}_buttons_${cacheKey.slice(-8)}`;
+  /**
+   * Templates criados pelo serviço que nenhum flow referencia mais.
+   */
+  async getOrphanContentTemplates(): Promise<ContentTemplateRecord[]> {
+    await this.syncContentTemplateRegistry();
 
-          logger.log(`Creating Content Template for node "${node.id}": ${templateName}`);
+    const [registered, referenced] = await Promise.all([
+      contentTemplatesRepository.findAllPages(),
+      this.getReferencedContentSids(),
+    ]);
 
-          const result = await twilioContentClient.createQuickReplyTemplate(
-            templateName,
-            node.content,
-            templateButtons,
-          );
+    return registered.filter((record) => !referenced.has(record.content_sid));
+  }
 
-          if (result.success && result.contentSid) {
-            logger.log(`Content Template created: ${result.contentSid}`);
-            await this.setCachedJson(cacheKey, {
-              contentSid: result.contentSid,
-              templateType: 'quick-reply',
-              templateName,
-              nodeId: node.id,
-              flowName: flow.name,
-            });
-            updatedNodes.push({
-              ...node,
-              contentTemplateSid: result.contentSid,
-            });
-          } else {
-            // Se falhar, continuar sem Content Template (fallback para texto)
-            logger.warn(`Failed to create Content Template for node "${node.id}": ${result.error}`);
-            logger.warn('Falling back to text-based buttons');
-            updatedNodes.push(node);
-          }
-        } else {
-          if (node.buttons.length <= 10) {
-            const templateButtons = node.buttons.map((btn) => ({
-              id: btn.id,
-              label: btn.label,
-              value: btn.value,
-            }));
-
-            const cacheKey = this.buildContentTemplateCacheKey(
-              'list-picker',
-              node.content,
-              templateButtons,
-            );
-
-            const cached = await this.getCachedJson<{ contentSid: string }>(cacheKey);
-            const cachedSid = cached?.value?.contentSid;
-            if (cachedSid) {
-              updatedNodes.push({
-                ...node,
-                contentTemplateSid: cachedSid,
-              });
-              continue;
-            }
-
-            const templateName = `${flow.name}_${node.id}_buttons_${cacheKey.slice(-8)}`;
-
-            logger.log(
-              `Creating List-picker Content Template for node "${node.id}": ${templateName}`,
-            );
-
-            const result = await twilioContentClient.createListPickerTemplate(
-              templateName,
-              node.content,
-              templateButtons,
-            );
-
-            if (result.success && result.contentSid) {
-              logger.log(`Content Template created: ${result.contentSid}`);
-              await this.setCachedJson(cacheKey, {
-                contentSid: result.contentSid,
-                templateType: 'list-picker',
-                templateName,
-                nodeId: node.id,
-                flowName: flow.name,
-              });
-              updatedNodes.push({
-                ...node,
-                contentTemplateSid: result.contentSid,
-              });
-              continue;
-            }
-
-            logger.warn(`Failed to create Content Template for node "${node.id}": ${result.error}`);
-            logger.warn('Falling back to text-based buttons');
-          }
-          // Mais de 3 botões: usar fallback de texto
-          logger.warn(`Node "${node.id}" has ${node.buttons.length} buttons. Using text fallback.`);
-          updatedNodes.push(node);
-        }
-      } else {
-        // Node não é de botões ou já tem Content Template
-        updatedNodes.push(node);
+  /**
+   * Deleta na Twilio os templates órfãos (todos ou só os SIDs informados) e limpa o cache
+   * e o registro. SIDs que voltaram a ser usados ou não são do serviço não são tocados.
+   */
+  async purgeOrphanContentTemplates(contentSids?: string[]): Promise<ContentTemplatePurgeResult> {
+    const orphans = await this.getOrphanContentTemplates();
+    const orphanMap = new Map(orphans.map((record) => [record.content_sid, record]));
+    const targets = contentSids ?? [...orphanMap.keys()];
+    const result: ContentTemplatePurgeResult = { deleted: [], failed: [] };
+
+    for (const contentSid of targets) {
+      const record = orphanMap.get(contentSid);
+      if (!record) {
+        result.failed.push({
+          contentSid,
+          error: 'Template is referenced by a flow or was not created by this service',
+        });
+        continue;
+      }
+
+      const deletion = await twilioContentClient.deleteTemplate(contentSid);
+      if (!deletion.success) {
+        result.failed.push({ contentSid, error: deletion.error || 'Failed to delete template' });
+        continue;
       }
+
+      // Sem a entrada de cache, o próximo publish com o mesmo conteúdo recria o template
+      await twilioCacheRepository.delete(record.cache_key);
+      await contentTemplatesRepository.delete(contentSid);
+      result.deleted.push(contentSid);
     }
 
-    return updatedNodes;
+    if (result.deleted.length > 0) {
+      await this.invalidateContentTemplateList();
+    }
+
+    return result;
   }
 
-  async unpublish(id: string): Promise<FlowPublishResult> {
+  /**
+   * Status da aprovação WhatsApp dos templates do flow (rascunho e versão publicada).
+   * Com `refresh`, consulta a Content API e persiste o resultado.
+   */
+  async getTemplateApprovals(flow: Flow, refresh = false): Promise<FlowTemplateApproval[]> {
+    const nodes = [...flow.nodes, ...(flow.published?.nodes ?? [])];
+    return this.loadTemplateApprovals(nodes, getFlowDefaultLocale(flow), refresh);
+  }
+
+  /**
+   * Envia para aprovação os templates do flow que nunca foram submetidos.
+   */
+  async submitTemplateApprovals(
+    id: string,
+    category: WhatsAppApprovalCategory = 'UTILITY',
+  ): Promise<FlowTemplateApproval[] | null> {
     const flow = await flowsRepository.findById(id);
-    if (!flow) {
-      return { success: false, error: 'Flow not found' };
-    }
+    if (!flow) return null;
 
-    if (!flow.twilio_flow_sid) {
-      return { success: false, error: 'Flow is not published on Twilio' };
+    if (!twilioContentClient.isConfigured()) {
+      throw new Error('Twilio credentials not configured');
     }
 
-    if (!twilioStudioClient.isConfigured()) {
-      return { success: false, error: 'Twilio credentials not configured' };
+    const approvals = await this.getTemplateApprovals(flow, true);
+    return this.submitUnsubmittedApprovals(approvals, category);
+  }
+
+  /**
+   * Uma entrada por node/idioma que usa template; o mesmo SID pode aparecer em vários nodes.
+   */
+  private async loadTemplateApprovals(
+    nodes: FlowNode[],
+    defaultLocale: string,
+    refresh: boolean,
+  ): Promise<FlowTemplateApproval[]> {
+    const refs = new Map<string, { nodeId: string; locale: string; contentSid: string }>();
+    const addRef = (nodeId: string, locale: string, contentSid?: string) => {
+      if (contentSid) refs.set(`${nodeId}:${locale}:${contentSid}`, { nodeId, locale, contentSid });
+    };
+
+    // Páginas de menus longos aparecem com o id da página (ex.: menu__page2)
+    for (const node of paginateMenuNodes(nodes, defaultLocale)) {
+      addRef(node.id, defaultLocale, node.contentTemplateSid);
+      for (const [locale, translation] of Object.entries(node.translations ?? {})) {
+        addRef(node.id, locale, translation.contentTemplateSid);
+      }
     }
 
-    const result = await twilioStudioClient.setFlowStatus(flow.twilio_flow_sid, 'draft');
+    const contentSids = [...new Set([...refs.values()].map((ref) => ref.contentSid))];
+    const records = new Map(
+      (await contentApprovalsRepository.findBySids(contentSids)).map((record) => [
+        record.content_sid,
+        record,
+      ]),
+    );
+
+    if (refresh && twilioContentClient.isConfigured()) {
+      for (const contentSid of contentSids) {
+        const result = await twilioContentClient.getApprovalStatus(contentSid);
+        if (!result.success || !result.approval) {
+          logger.warn(`Failed to fetch WhatsApp approval for "${contentSid}": ${result.error}`);
+          continue;
+        }
 
-    if (result.success) {
-      await flowsRepository.updateStatus(id, 'draft');
-      return { success: true, twilioFlowSid: flow.twilio_flow_sid };
+        const previous = records.get(contentSid);
+        const record: ContentApprovalRecord = {
+          content_sid: contentSid,
+          status: result.approval.status,
+          category: result.approval.category ?? previous?.category,
+          approval_name: result.approval.name ?? previous?.approval_name,
+          rejection_reason: result.approval.rejectionReason,
+          submitted_at: previous?.submitted_at,
+          checked_at: new Date(),
+        };
+        await contentApprovalsRepository.save(record);
+        records.set(contentSid, record);
+      }
     }
 
-    return { success: false, error: result.error };
+    return [...refs.values()].map((ref) =>
+      this.toTemplateApproval(ref, records.get(ref.contentSid)),
+    );
   }
 
-  async validate(id: string): Promise<{ valid: boolean; errors?: string[] }> {
-    const flow = await flowsRepository.findById(id);
-    if (!flow) {
-      return { valid: false, errors: ['Flow not found'] };
-    }
+  private async submitUnsubmittedApprovals(
+    approvals: FlowTemplateApproval[],
+    category: WhatsAppApprovalCategory,
+  ): Promise<FlowTemplateApproval[]> {
+    const submitted = new Map<string, ContentApprovalRecord>();
 
-    if (!twilioStudioClient.isConfigured()) {
-      return { valid: false, errors: ['Twilio credentials not configured'] };
+    for (const approval of approvals) {
+      if (approval.status !== 'unsubmitted' || submitted.has(approval.contentSid)) continue;
+
+      const name = await this.getApprovalName(approval.contentSid);
+      const result = await twilioContentClient.submitWhatsAppApproval(
+        approval.contentSid,
+        name,
+        category,
+      );
+      if (!result.success || !result.approval) {
+        logger.warn(`Failed to submit "${approval.contentSid}" for approval: ${result.error}`);
+        continue;
+      }
+
+      const now = new Date();
+      const record: ContentApprovalRecord = {
+        content_sid: approval.contentSid,
+        status: result.approval.status,
+        category: result.approval.category ?? category,
+        approval_name: result.approval.name ?? name,
+        rejection_reason: result.approval.rejectionReason,
+        submitted_at: now,
+        checked_at: now,
+      };
+      await contentApprovalsRepository.save(record);
+      submitted.set(approval.contentSid, record);
     }
 
-    const definition = flowBuilder.build(flow);
-    return twilioStudioClient.validateFlow(flow.name, definition);
+    return approvals.map((approval) => {
+      const record = submitted.get(approval.contentSid);
+      return record ? this.toTemplateApproval(approval, record) : approval;
+    });
   }
 
-  private validateFlowInput(input: FlowInput): void {
-    if (!input.name || input.name.trim().length === 0) {
-      throw new Error('Flow name is required');
-    }
+  /**
+   * Nome exigido pelo WhatsApp (minúsculas, números e underscore). O sufixo do SID evita
+   * colisão entre versões do mesmo node, que geram templates com o mesmo friendly name.
+   */
+  private async getApprovalName(contentSid: string): Promise<string> {
+    const registered = await contentTemplatesRepository.findBySid(contentSid);
+    const base = (registered?.template_name || 'template')
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+    return `${base.substring(0, 480)}_${contentSid.slice(-8).toLowerCase()}`;
+  }
 
-    if (!input.nodes || input.nodes.length === 0) {
-      throw new Error('Flow must have at least one node');
-    }
+  private toTemplateApproval(
+    ref: { nodeId: string; locale: string; contentSid: string },
+    record?: ContentApprovalRecord,
+  ): FlowTemplateApproval {
+    return {
+      nodeId: ref.nodeId,
+      locale: ref.locale,
+      contentSid: ref.contentSid,
+      status: record?.status ?? 'unknown',
+      category: record?.category,
+      rejectionReason: record?.rejection_reason,
+      checkedAt: record?.checked_at,
+    };
+  }
 
-    if (!input.startNodeId) {
-      throw new Error('Start node ID is required');
-    }
+  async getAll(limit?: number): Promise<Flow[]> {
+    return flowsRepository.findAll(limit);
+  }
 
-    this.validateNodes(input.nodes, input.startNodeId);
+  async getById(id: string): Promise<Flow | null> {
+    return flowsRepository.findById(id);
   }
 
-  private validateNodes(nodes: FlowInput['nodes'], startNodeId: string): void {
-    const nodeIds = new Set(nodes.map((n) => n.id));
+  async getByTwilioSid(twilioFlowSid: string): Promise<Flow | null> {
+    return flowsRepository.findByTwilioSid(twilioFlowSid);
+  }
 
-    // Verificar se startNodeId existe
-    if (!nodeIds.has(startNodeId)) {
-      throw new Error(`Start node "${startNodeId}" not found in nodes`);
+  async create(input: FlowInput, flowId?: string): Promise<Flow> {
+    this.validateFlowInput(input);
+    const flow = await flowsRepository.create(input, flowId);
+    await this.snapshotVersion(flow, 'create');
+    return flow;
+  }
+
+  async update(id: string, input: FlowUpdateInput): Promise<Flow | null> {
+    const existing = await flowsRepository.findById(id);
+    if (!existing) return null;
+
+    if (input.nodes) {
+      this.validateNodes(input.nodes, input.startNodeId || existing.start_node_id);
     }
 
-    // Verificar referências de nextNodeId
-    for (const node of nodes) {
-      if (node.nextNodeId && !nodeIds.has(node.nextNodeId)) {
-        throw new Error(`Node "${node.id}" references non-existent node "${node.nextNodeId}"`);
-      }
+    this.validateDefaultLocale(input.defaultLocale);
 
-      // Verificar referências em buttons
-      if (node.buttons) {
-        for (const button of node.buttons) {
-          if (!nodeIds.has(button.nextNodeId)) {
-            throw new Error(
-              `Button "${button.label}" in node "${node.id}" references non-existent node "${button.nextNodeId}"`,
-            );
-          }
-        }
-      }
+    const status = this.resolveDraftStatus(existing, {
+      name: input.name ?? existing.name,
+      nodes: input.nodes ?? existing.nodes,
+      start_node_id: input.startNodeId ?? existing.start_node_id,
+      default_locale: input.defaultLocale ?? existing.default_locale,
+    });
+
+    const flow = await flowsRepository.update(id, input, status);
+    if (flow) {
+      await this.snapshotVersion(flow, 'update');
     }
+    return flow;
+  }
 
-    // Verificar IDs duplicados
-    if (nodeIds.size !== nodes.length) {
-      throw new Error('Duplicate node IDs found');
+  /**
+   * Status de um flow publicado após editar o rascunho: volta a "published" se o rascunho
+   * ficou igual ao snapshot publicado. Flows sem snapshot mantêm o status atual.
+   */
+  private resolveDraftStatus(existing: Flow, draft: FlowPublishedSnapshot): FlowStatus | undefined {
+    if (!existing.published) return undefined;
+    if (existing.status !== 'published' && existing.status !== 'published_with_changes') {
+      return undefined;
+    }
+
+    const diff = diffFlowSnapshots(existing.published, draft);
+    return hasSnapshotChanges(diff) ? 'published_with_changes' : 'published';
+  }
+
+  /**
+   * Diff do rascunho contra o que está publicado na Twilio.
+   */
+  async getPendingChanges(id: string): Promise<FlowPendingChanges | null> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) return null;
+
+    if (!flow.published) {
+      throw new Error('Flow has not been published yet');
+    }
+
+    const diff = diffFlowSnapshots(flow.published, {
+      name: flow.name,
+      nodes: flow.nodes,
+      start_node_id: flow.start_node_id,
+      default_locale: flow.default_locale,
+    });
+
+    return { hasChanges: hasSnapshotChanges(diff), publishedAt: flow.published_at, ...diff };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await flowsRepository.findById(id);
+    if (!existing) return false;
+
+    const dependents = await this.getSubflowDependents(id);
+    if (dependents.length > 0) {
+      const names = dependents.map((flow) => `"${flow.name}" (${flow.id})`).join(', ');
+      throw new Error(`Flow is used as a subflow by: ${names}`);
+    }
+
+    // Se o flow está publicado na Twilio, deletar lá também
+    if (existing.twilio_flow_sid) {
+      const result = await twilioStudioClient.deleteFlow(existing.twilio_flow_sid);
+      if (!result.success) {
+        throw new Error(`Failed to delete flow from Twilio: ${result.error}`);
+      }
+    }
+
+    const deleted = await flowsRepository.delete(id);
+    if (deleted) {
+      await flowVersionsRepository.deleteByFlowId(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Copia o flow com um novo nome. Os IDs dos nodes ganham um sufixo (com as referências
+   * remapeadas) e os SIDs da Twilio são descartados: o clone publica como um flow novo.
+   */
+  async clone(id: string, name: string): Promise<Flow | null> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) return null;
+
+    const suffix = randomUUID().slice(0, 6);
+    const mapping = new Map(flow.nodes.map((node) => [node.id, `${node.id}_${suffix}`]));
+    const nodes = remapNodeIds(flow.nodes, mapping).map(stripTemplateSids);
+
+    return this.create({
+      name,
+      description: flow.description,
+      nodes,
+      startNodeId: mapping.get(flow.start_node_id) ?? flow.start_node_id,
+      defaultLocale: flow.default_locale,
+    });
+  }
+
+  getTemplates(): Array<Omit<FlowTemplate, 'build'>> {
+    return FLOW_TEMPLATES.map(({ build: _build, ...template }) => template);
+  }
+
+  /**
+   * Cria um flow em draft a partir de um template do catálogo.
+   */
+  async instantiateTemplate(key: string, params: FlowTemplateParams): Promise<Flow | null> {
+    const template = getFlowTemplate(key);
+    if (!template) return null;
+    return this.create(template.build(params));
+  }
+
+  async exportFlow(id: string): Promise<FlowBundle | null> {
+    const flow = await flowsRepository.findById(id);
+    return flow ? createFlowBundle(flow) : null;
+  }
+
+  /**
+   * Cria um flow a partir de um bundle exportado. Mantém o ID de origem quando está livre
+   * (referências de subflow continuam válidas entre ambientes); se já existir, gera outro.
+   * Os Content Templates não têm SID no bundle e são recriados no próximo publish.
+   */
+  async importBundle(bundle: FlowBundle): Promise<FlowBundleImportResult> {
+    assertFlowBundle(bundle);
+
+    const sourceId = bundle.flow.id;
+    const existing = UUID_PATTERN.test(sourceId) ? await flowsRepository.findById(sourceId) : null;
+    const flowId = UUID_PATTERN.test(sourceId) && !existing ? sourceId : randomUUID();
+
+    // SIDs de templates são da conta de origem: o publish recria os templates de todo node
+    const nodes = bundle.flow.nodes.map((node): FlowNode => {
+      const imported = stripTemplateSids(node);
+
+      // Subflow apontando para o próprio flow acompanha o novo ID
+      if (imported.subflow && imported.subflow.flowId === sourceId) {
+        imported.subflow = { ...imported.subflow, flowId };
+      }
+
+      return imported;
+    });
+
+    const flow = await this.create(
+      {
+        name: bundle.flow.name,
+        description: bundle.flow.description,
+        nodes,
+        startNodeId: bundle.flow.startNodeId,
+        defaultLocale: bundle.flow.defaultLocale,
+      },
+      flowId,
+    );
+
+    return flowId === sourceId ? { flow } : { flow, remappedFrom: sourceId };
+  }
+
+  /**
+   * Importa um flow do Twilio Studio para o modelo de nodes. Se o SID já estiver vinculado
+   * (flows_by_twilio_sid), atualiza o flow existente em vez de criar outro.
+   */
+  async importFromTwilio(twilioFlowSid: string): Promise<FlowImportResult> {
+    const result = await twilioStudioClient.getFlow(twilioFlowSid);
+    if (!result.success || !result.flow) {
+      throw new Error(result.error || 'Failed to fetch flow from Twilio');
+    }
+
+    const imported = flowImporter.import(result.flow.definition);
+    const nodes = await this.fillImportedTemplateContent(imported.nodes, imported.unsupported);
+    const existing = await flowsRepository.findByTwilioSid(twilioFlowSid);
+
+    const saved = existing
+      ? await this.update(existing.id, {
+          nodes,
+          startNodeId: imported.startNodeId,
+        })
+      : await this.create({
+          name: result.flow.friendlyName,
+          description: result.flow.definition.description || undefined,
+          nodes,
+          startNodeId: imported.startNodeId,
+        });
+
+    if (!saved) {
+      throw new Error('Failed to save imported flow');
+    }
+
+    // O que veio da Twilio publicado já é o snapshot publicado
+    const flow =
+      (result.flow.status === 'published'
+        ? await flowsRepository.promoteDraft(
+            saved.id,
+            {
+              name: saved.name,
+              nodes: saved.nodes,
+              start_node_id: saved.start_node_id,
+              default_locale: saved.default_locale,
+            },
+            twilioFlowSid,
+            saved.updated_at,
+          )
+        : await flowsRepository.updateStatus(saved.id, 'draft', twilioFlowSid)) ?? saved;
+
+    return { flow, created: !existing, unsupported: imported.unsupported };
+  }
+
+  /**
+   * Widgets com Content Template criados no Console costumam vir sem body: o conteúdo do node
+   * vem do próprio template. Sem acesso ao template, o node segue só com o SID (o builder
+   * envia pelo template) e fica registrado no relatório.
+   */
+  private async fillImportedTemplateContent(
+    nodes: FlowNode[],
+    unsupported: FlowImportIssue[],
+  ): Promise<FlowNode[]> {
+    const bodies = new Map<string, string>();
+    const filled: FlowNode[] = [];
+
+    for (const node of nodes) {
+      const contentSid = node.contentTemplateSid;
+      if (!contentSid || node.content.trim().length > 0) {
+        filled.push(node);
+        continue;
+      }
+
+      if (!bodies.has(contentSid)) {
+        const result = await twilioContentClient.getTemplate(contentSid);
+        bodies.set(
+          contentSid,
+          result.template ? getContentTemplateBody(result.template.types) : '',
+        );
+      }
+
+      const content = bodies.get(contentSid) ?? '';
+      if (!content) {
+        unsupported.push({
+          widget: node.id,
+          type: 'content_template',
+          reason: `Could not read the body of Content Template ${contentSid}; node content left empty`,
+        });
+      }
+      filled.push({ ...node, content });
+    }
+
+    return filled;
+  }
+
+  // ============================================
+  // Histórico de versões
+  // ============================================
+
+  async getVersions(id: string, limit?: number): Promise<FlowVersion[] | null> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) return null;
+    return flowVersionsRepository.findByFlowId(id, limit);
+  }
+
+  async getVersion(id: string, version: number): Promise<FlowVersion | null> {
+    return flowVersionsRepository.findByVersion(id, version);
+  }
+
+  async diffVersions(
+    id: string,
+    fromVersion: number,
+    toVersion: number,
+  ): Promise<FlowVersionDiff | null> {
+    const [from, to] = await Promise.all([
+      flowVersionsRepository.findByVersion(id, fromVersion),
+      flowVersionsRepository.findByVersion(id, toVersion),
+    ]);
+    if (!from || !to) return null;
+    return diffFlowVersions(from, to);
+  }
+
+  /**
+   * Restaura nodes, start node e idioma padrão de uma versão anterior (gera uma nova versão
+   * "rollback") e, se pedido, republica na Twilio.
+   */
+  async rollback(
+    id: string,
+    version: number,
+    options?: { publish?: boolean },
+  ): Promise<FlowRollbackResult | null> {
+    const target = await flowVersionsRepository.findByVersion(id, version);
+    if (!target) return null;
+
+    this.validateNodes(target.nodes, target.start_node_id);
+
+    const existing = await flowsRepository.findById(id);
+    if (!existing) return null;
+
+    // Versões anteriores ao multi-idioma não têm default_locale: mantém o atual
+    const defaultLocale = target.default_locale ?? existing.default_locale;
+
+    const status = this.resolveDraftStatus(existing, {
+      name: existing.name,
+      nodes: target.nodes,
+      start_node_id: target.start_node_id,
+      default_locale: defaultLocale,
+    });
+
+    const restored = await flowsRepository.update(
+      id,
+      { nodes: target.nodes, startNodeId: target.start_node_id, defaultLocale },
+      status,
+    );
+    if (!restored) return null;
+
+    await this.snapshotVersion(restored, 'rollback');
+
+    if (!options?.publish) {
+      return { flow: restored, restoredFrom: version };
+    }
+
+    const publish = await this.publish(id);
+    const flow = (await flowsRepository.findById(id)) ?? restored;
+    return { flow, restoredFrom: version, publish };
+  }
+
+  /**
+   * Grava um snapshot do flow. Falhas não bloqueiam o save/publish que originou o snapshot.
+   */
+  private async snapshotVersion(
+    flow: Flow,
+    reason: FlowVersionReason,
+    definition?: TwilioFlowDefinition,
+  ): Promise<void> {
+    try {
+      let snapshotDefinition = definition;
+      if (!snapshotDefinition) {
+        // Flows incompletos (ex.: horário removido) ainda geram versão, só sem definition
+        snapshotDefinition = await this.buildDefinition(flow).catch(() => undefined);
+      }
+      await flowVersionsRepository.create(flow, reason, snapshotDefinition);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'unknown error';
+      logger.warn(`Failed to snapshot version of flow "${flow.id}": ${message}`);
+    }
+  }
+
+  /**
+   * Flows que usam o flow informado em um node "subflow", no rascunho ou na versão no ar
+   * (o Studio publicado continua chamando o subflow mesmo que o rascunho não o use mais).
+   */
+  async getSubflowDependents(id: string): Promise<Flow[]> {
+    const flows = await flowsRepository.findAllPages();
+    return flows.filter(
+      (flow) =>
+        flow.id !== id &&
+        (getSubflowIds(flow.nodes).includes(id) ||
+          getSubflowIds(flow.published?.nodes ?? []).includes(id)),
+    );
+  }
+
+  async preview(id: string): Promise<FlowPreview | null> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) return null;
+
+    const twilioDefinition = await this.buildDefinition(flow);
+
+    return {
+      flow,
+      twilioDefinition,
+    };
+  }
+
+  async buildDefinition(flow: Flow): Promise<TwilioFlowDefinition> {
+    const context = await this.resolveBuildContext(flow);
+    return flowBuilder.build(flow, context);
+  }
+
+  /**
+   * Carrega os dados externos que os nodes do flow referenciam (ex.: horários de atendimento).
+   */
+  private async resolveBuildContext(flow: Flow): Promise<FlowBuildContext> {
+    const schedules = await schedulesService.resolveForNodes(flow.nodes);
+    const subflowSids = new Map<string, string>();
+
+    for (const subflowId of getSubflowIds(flow.nodes)) {
+      const subflow = await flowsRepository.findById(subflowId);
+      if (!subflow) {
+        throw new Error(`Subflow "${subflowId}" not found`);
+      }
+      // Sem SID (ainda não publicado), o builder usa um placeholder no preview
+      if (subflow.twilio_flow_sid) {
+        subflowSids.set(subflowId, subflow.twilio_flow_sid);
+      }
+    }
+
+    return { schedules, subflowSids, now: new Date() };
+  }
+
+  async publish(id: string, options: FlowPublishOptions = {}): Promise<FlowPublishResult> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) {
+      return { success: false, error: 'Flow not found' };
+    }
+
+    if (!twilioStudioClient.isConfigured()) {
+      return { success: false, error: 'Twilio credentials not configured' };
+    }
+
+    // Templates e aprovação de toda a árvore de subflows antes de publicar qualquer flow:
+    // com approvalPolicy 'require' nada vai ao ar se um template da árvore não foi aprovado
+    const prepared: PreparedPublish[] = [];
+    const warnings: string[] = [];
+    const prepareError = await this.preparePublish(flow, [], prepared, warnings, options);
+    if (prepareError) {
+      await flowsRepository.updateStatus(id, 'error', undefined, prepareError);
+      return { success: false, error: prepareError };
+    }
+
+    // Recusa sem marcar o flow como 'error': a versão no ar (se houver) continua válida
+    if (options.approvalPolicy === 'require' && warnings.length > 0) {
+      return { success: false, error: warnings.join('; '), warnings };
+    }
+
+    // Subflows vêm antes em `prepared`: o pai precisa do twilio_flow_sid deles
+    let twilioFlowSid: string | undefined;
+    for (const entry of prepared) {
+      const result = await this.publishPrepared(entry);
+      if (!result.success) {
+        if (entry.flow.id === id) return result;
+
+        const error = `Failed to publish subflow "${entry.flow.name}": ${result.error}`;
+        await flowsRepository.updateStatus(id, 'error', undefined, error);
+        return { success: false, error };
+      }
+      twilioFlowSid = result.twilioFlowSid;
+    }
+
+    return {
+      success: true,
+      twilioFlowSid,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  /**
+   * Cria os Content Templates do flow e dos subflows que ainda não estão no ar, consulta a
+   * aprovação (conforme approvalPolicy) e acumula em `prepared` na ordem de publicação
+   * (filhos antes do pai). `chain` guarda os flows acima deste, para detectar ciclos.
+   */
+  private async preparePublish(
+    flow: Flow,
+    chain: string[],
+    prepared: PreparedPublish[],
+    warnings: string[],
+    options: FlowPublishOptions,
+  ): Promise<string | null> {
+    for (const subflowId of getSubflowIds(flow.nodes)) {
+      if (chain.includes(subflowId) || subflowId === flow.id) {
+        return `Subflow cycle detected: ${[...chain, flow.id, subflowId].join(' -> ')}`;
+      }
+
+      // Subflow usado por mais de um flow da árvore é preparado uma vez só
+      if (prepared.some((entry) => entry.flow.id === subflowId)) continue;
+
+      const subflow = await flowsRepository.findById(subflowId);
+      if (!subflow) {
+        return `Subflow "${subflowId}" not found`;
+      }
+
+      // Com alterações pendentes o subflow segue no ar; o rascunho dele não é promovido aqui
+      const isLive = subflow.status === 'published' || subflow.status === 'published_with_changes';
+      if (isLive && subflow.twilio_flow_sid) continue;
+
+      logger.log(`Publishing subflow "${subflow.name}" before "${flow.name}"`);
+
+      const error = await this.preparePublish(
+        subflow,
+        [...chain, flow.id],
+        prepared,
+        warnings,
+        options,
+      );
+      if (error) {
+        return `Failed to publish subflow "${subflow.name}": ${error}`;
+      }
+    }
+
+    // Criar Content Templates automaticamente para nodes com botões, mídia e variáveis
+    const nodesWithButtonTemplates = await this.createContentTemplatesForButtons(flow);
+    const nodesWithMediaTemplates = await this.createContentTemplatesForMedia(
+      flow,
+      nodesWithButtonTemplates,
+    );
+    const nodes = await this.createContentTemplatesForText(flow, nodesWithMediaTemplates);
+
+    // Templates sem aprovação do WhatsApp falham em mensagens iniciadas pela empresa
+    const approvalPolicy = options.approvalPolicy ?? 'ignore';
+    if (approvalPolicy !== 'ignore') {
+      const approvals = await this.submitUnsubmittedApprovals(
+        await this.loadTemplateApprovals(nodes, getFlowDefaultLocale(flow), true),
+        options.approvalCategory ?? 'UTILITY',
+      );
+      const owner = chain.length > 0 ? ` in subflow "${flow.name}"` : '';
+
+      for (const approval of approvals) {
+        if (approval.status === 'approved') continue;
+        const reason = approval.rejectionReason ? ` (${approval.rejectionReason})` : '';
+        warnings.push(
+          `Template "${approval.contentSid}" of node "${approval.nodeId}"${owner} (${approval.locale}) is not approved for WhatsApp: ${approval.status}${reason}`,
+        );
+      }
+    }
+
+    prepared.push({ flow, nodes });
+    return null;
+  }
+
+  /**
+   * Publica um flow já preparado (nodes com os Content Template SIDs) no Studio.
+   */
+  private async publishPrepared({ flow, nodes }: PreparedPublish): Promise<FlowPublishResult> {
+    const id = flow.id;
+
+    // Criar uma cópia do flow com os Content Template SIDs
+    const flowWithTemplates: Flow = {
+      ...flow,
+      nodes,
+    };
+
+    let definition: TwilioFlowDefinition;
+    try {
+      definition = await this.buildDefinition(flowWithTemplates);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to build flow definition';
+      await flowsRepository.updateStatus(id, 'error', undefined, message);
+      return { success: false, error: message };
+    }
+
+    // Validar antes de publicar
+    const validation = await twilioStudioClient.validateFlow(flow.name, definition);
+    if (!validation.valid) {
+      await flowsRepository.updateStatus(
+        id,
+        'error',
+        undefined,
+        validation.errors?.join(', ') || 'Validation failed',
+      );
+      return {
+        success: false,
+        error: validation.errors?.join(', ') || 'Validation failed',
+      };
+    }
+
+    let result: { success: boolean; flowSid?: string; error?: string };
+
+    if (flow.twilio_flow_sid) {
+      // Atualizar flow existente
+      const updateResult = await twilioStudioClient.updateFlow(
+        flow.twilio_flow_sid,
+        definition,
+        'published',
+        `Published at ${new Date().toISOString()}`,
+      );
+      result = {
+        success: updateResult.success,
+        flowSid: flow.twilio_flow_sid,
+        error: updateResult.error,
+      };
+    } else {
+      // Criar novo flow
+      result = await twilioStudioClient.createFlow(flow.name, definition, 'published');
+    }
+
+    if (result.success && result.flowSid) {
+      // Promove exatamente o rascunho lido acima (com os Content Template SIDs)
+      const published = await flowsRepository.promoteDraft(
+        id,
+        {
+          name: flow.name,
+          nodes,
+          start_node_id: flow.start_node_id,
+          default_locale: flow.default_locale,
+        },
+        result.flowSid,
+        flow.updated_at,
+      );
+      if (published) {
+        await this.snapshotVersion(
+          { ...published, nodes, start_node_id: flow.start_node_id },
+          'publish',
+          definition,
+        );
+      }
+      return { success: true, twilioFlowSid: result.flowSid };
+    }
+
+    await flowsRepository.updateStatus(id, 'error', flow.twilio_flow_sid, result.error);
+    return { success: false, error: result.error };
+  }
+
+  /**
+   * Cria Content Templates na Twilio para todos os nodes do tipo 'buttons'
+   * que ainda não têm um contentTemplateSid definido (um por idioma traduzido).
+   */
+  private async createContentTemplatesForButtons(flow: Flow): Promise<FlowNode[]> {
+    const defaultLocale = getFlowDefaultLocale(flow);
+    const updatedNodes: FlowNode[] = [];
+
+    for (const node of flow.nodes) {
+      if (node.type !== 'buttons' || !node.buttons || node.buttons.length === 0) {
+        updatedNodes.push(node);
+        continue;
+      }
+
+      // Menus com mais de 10 opções: um template por página (ver flows.menus)
+      const pages: FlowNode[] = [];
+      for (const page of paginateMenuNode(node, defaultLocale)) {
+        let updated = page;
+        if (!page.contentTemplateSid) {
+          const contentSid = await this.createButtonsTemplate(flow, page, defaultLocale);
+          if (contentSid) {
+            updated = { ...updated, contentTemplateSid: contentSid };
+          }
+        }
+
+        pages.push(
+          await this.createTranslationTemplates(updated, defaultLocale, (localized, locale) =>
+            this.createButtonsTemplate(flow, localized, locale),
+          ),
+        );
+      }
+
+      updatedNodes.push(collapseMenuPages(node, pages));
+    }
+
+    return updatedNodes;
+  }
+
+  /**
+   * Cria (ou reaproveita do cache) o template quick-reply / list-picker do node no idioma
+   * informado. Retorna undefined quando o node deve usar o fallback em texto.
+   */
+  private async createButtonsTemplate(
+    flow: Flow,
+    node: FlowNode,
+    language: string,
+  ): Promise<string | undefined> {
+    const buttons = node.buttons ?? [];
+    const media = node.media?.urls ?? [];
+
+    // Texto ou botões com {{var.*}}/{{http.*}}: o template ficaria com o placeholder literal,
+    // então o builder envia o menu numerado com os placeholders resolvidos em Liquid
+    const texts = [node.content, ...buttons.flatMap((btn) => [btn.label, btn.description ?? ''])];
+    if (texts.some(hasFlowPlaceholders)) {
+      logger.log(`Node "${node.id}" uses flow placeholders, sending buttons as text`);
+      return undefined;
+    }
+
+    // Twilio Content API limita a 3 botões para quick-reply e 10 para list-picker
+    const templateType = getButtonsTemplateType(buttons, media.length > 0);
+    if (!templateType) {
+      logger.warn(`Node "${node.id}" has ${buttons.length} buttons. Using text fallback.`);
+      return undefined;
+    }
+
+    const templateButtons = buttons.map((btn) => ({
+      id: btn.id,
+      label: btn.label,
+      value: btn.value,
+      kind: btn.kind,
+      description: btn.description,
+      section: btn.section,
+    }));
+
+    const variables = this.getTemplateVariables(node);
+    const cacheKey = this.buildContentTemplateCacheKey(
+      templateType,
+      node.content,
+      templateButtons,
+      language,
+      media,
+      variables,
+    );
+
+    const cached = await this.getCachedJson<{ contentSid: string }>(cacheKey);
+    const cachedSid = cached?.value?.contentSid;
+    if (cachedSid) return cachedSid;
+
+    const templateName = `${flow.name}_${node.id}_buttons_${cacheKey.slice(-8)}`;
+
+    logger.log(
+      `Creating ${templateType} Content Template for node "${node.id}" (${language}): ${templateName}`,
+    );
+
+    const result = await this.createButtonsTemplateOfType(
+      templateType,
+      templateName,
+      node.content,
+      templateButtons,
+      media,
+      language,
+      variables,
+    );
+
+    if (result.success && result.contentSid) {
+      logger.log(`Content Template created: ${result.contentSid}`);
+      const cacheValue: ContentTemplateCacheValue = {
+        contentSid: result.contentSid,
+        templateType,
+        templateName,
+        nodeId: node.id,
+        flowName: flow.name,
+        language,
+      };
+      await this.setCachedJson(cacheKey, cacheValue);
+      await this.registerContentTemplate(cacheKey, cacheValue);
+      return result.contentSid;
+    }
+
+    // Se falhar, continuar sem Content Template (fallback para texto)
+    logger.warn(`Failed to create Content Template for node "${node.id}": ${result.error}`);
+    logger.warn('Falling back to text-based buttons');
+    return undefined;
+  }
+
+  private createButtonsTemplateOfType(
+    templateType: ButtonsTemplateType,
+    templateName: string,
+    body: string,
+    buttons: FlowButton[],
+    media: string[],
+    language: string,
+    variables: Record<string, string>,
+  ) {
+    switch (templateType) {
+      case 'quick-reply':
+        return twilioContentClient.createQuickReplyTemplate(
+          templateName,
+          body,
+          buttons,
+          language,
+          variables,
+        );
+      case 'list-picker':
+        return twilioContentClient.createListPickerTemplate(
+          templateName,
+          body,
+          buttons,
+          language,
+          variables,
+        );
+      case 'call-to-action':
+        return twilioContentClient.createCallToActionTemplate(
+          templateName,
+          body,
+          buttons,
+          language,
+          variables,
+        );
+      case 'card':
+        return twilioContentClient.createCardTemplate(
+          templateName,
+          body,
+          buttons,
+          media,
+          language,
+          variables,
+        );
+    }
+  }
+
+  /**
+   * Gera os templates das traduções do node que alteram o conteúdo e ainda não têm SID.
+   * `create` recebe o node já traduzido e o locale.
+   */
+  private async createTranslationTemplates(
+    node: FlowNode,
+    defaultLocale: string,
+    create: (localized: FlowNode, locale: string) => Promise<string | undefined>,
+  ): Promise<FlowNode> {
+    if (!node.translations) return node;
+
+    const translations = { ...node.translations };
+
+    for (const [locale, translation] of Object.entries(node.translations)) {
+      if (locale === defaultLocale || translation.contentTemplateSid) continue;
+
+      const localized = localizeNode(node, locale, defaultLocale);
+      // Tradução sem texto/labels próprios reaproveita o template do idioma padrão
+      if (localized === node) continue;
+
+      const contentSid = await create(localized, locale);
+      if (contentSid) {
+        translations[locale] = { ...translation, contentTemplateSid: contentSid };
+      }
+    }
+
+    return { ...node, translations };
+  }
+
+  /**
+   * Cria Content Templates twilio/media para os nodes do tipo 'media'
+   * que ainda não têm um contentTemplateSid definido (um por idioma traduzido).
+   */
+  private async createContentTemplatesForMedia(flow: Flow, nodes: FlowNode[]): Promise<FlowNode[]> {
+    const defaultLocale = getFlowDefaultLocale(flow);
+    const updatedNodes: FlowNode[] = [];
+
+    for (const node of nodes) {
+      if (node.type !== 'media' || !node.media || node.media.urls.length === 0) {
+        updatedNodes.push(node);
+        continue;
+      }
+
+      let updated = node;
+      if (!node.contentTemplateSid) {
+        const contentSid = await this.createMediaTemplate(flow, node, defaultLocale);
+        if (contentSid) {
+          updated = { ...updated, contentTemplateSid: contentSid };
+        }
+      }
+
+      updatedNodes.push(
+        await this.createTranslationTemplates(updated, defaultLocale, (localized, locale) =>
+          this.createMediaTemplate(flow, localized, locale),
+        ),
+      );
+    }
+
+    return updatedNodes;
+  }
+
+  private async createMediaTemplate(
+    flow: Flow,
+    node: FlowNode,
+    language: string,
+  ): Promise<string | undefined> {
+    const urls = node.media?.urls ?? [];
+
+    // Legenda ou URL dinâmica: o builder envia pelo media_url com os placeholders resolvidos
+    if ([node.content, ...urls].some(hasFlowPlaceholders)) {
+      logger.log(`Node "${node.id}" uses flow placeholders, sending media via media_url`);
+      return undefined;
+    }
+
+    const variables = this.getTemplateVariables(node);
+    const cacheKey = this.buildMediaTemplateCacheKey(node.content, urls, language, variables);
+
+    const cached = await this.getCachedJson<{ contentSid: string }>(cacheKey);
+    const cachedSid = cached?.value?.contentSid;
+    if (cachedSid) return cachedSid;
+
+    const templateName = `${flow.name}_${node.id}_media_${cacheKey.slice(-8)}`;
+
+    logger.log(
+      `Creating Media Content Template for node "${node.id}" (${language}): ${templateName}`,
+    );
+
+    const result = await twilioContentClient.createMediaTemplate(
+      templateName,
+      node.content,
+      urls,
+      language,
+      variables,
+    );
+
+    if (result.success && result.contentSid) {
+      logger.log(`Content Template created: ${result.contentSid}`);
+      const cacheValue: ContentTemplateCacheValue = {
+        contentSid: result.contentSid,
+        templateType: 'media',
+        templateName,
+        nodeId: node.id,
+        flowName: flow.name,
+        language,
+      };
+      await this.setCachedJson(cacheKey, cacheValue);
+      await this.registerContentTemplate(cacheKey, cacheValue);
+      return result.contentSid;
+    }
+
+    // Se falhar, o builder envia a mídia direto pelo media_url
+    logger.warn(`Failed to create Content Template for node "${node.id}": ${result.error}`);
+    logger.warn('Falling back to media_url message');
+    return undefined;
+  }
+
+  /**
+   * Nodes de texto (message/question) só precisam de template quando usam variáveis {{n}}.
+   */
+  private async createContentTemplatesForText(flow: Flow, nodes: FlowNode[]): Promise<FlowNode[]> {
+    const defaultLocale = getFlowDefaultLocale(flow);
+    const updatedNodes: FlowNode[] = [];
+
+    for (const node of nodes) {
+      const isText = node.type === 'message' || node.type === 'question';
+      if (!isText || Object.keys(node.contentVariables ?? {}).length === 0) {
+        updatedNodes.push(node);
+        continue;
+      }
+
+      let updated = node;
+      if (!node.contentTemplateSid) {
+        const contentSid = await this.createTextTemplate(flow, node, defaultLocale);
+        if (contentSid) {
+          updated = { ...updated, contentTemplateSid: contentSid };
+        }
+      }
+
+      updatedNodes.push(
+        await this.createTranslationTemplates(updated, defaultLocale, (localized, locale) =>
+          this.createTextTemplate(flow, localized, locale),
+        ),
+      );
+    }
+
+    return updatedNodes;
+  }
+
+  private async createTextTemplate(
+    flow: Flow,
+    node: FlowNode,
+    language: string,
+  ): Promise<string | undefined> {
+    // {{var.*}}/{{http.*}} não cabem num template estático: o builder envia o texto com os
+    // {{n}} e os placeholders resolvidos em Liquid
+    if (hasFlowPlaceholders(node.content)) {
+      logger.log(`Node "${node.id}" uses flow placeholders, sending content as custom message`);
+      return undefined;
+    }
+
+    const variables = this.getTemplateVariables(node);
+    const cacheKey = this.buildTextTemplateCacheKey(node.content, language, variables);
+
+    const cached = await this.getCachedJson<{ contentSid: string }>(cacheKey);
+    const cachedSid = cached?.value?.contentSid;
+    if (cachedSid) return cachedSid;
+
+    const templateName = `${flow.name}_${node.id}_text_${cacheKey.slice(-8)}`;
+
+    logger.log(
+      `Creating Text Content Template for node "${node.id}" (${language}): ${templateName}`,
+    );
+
+    const result = await twilioContentClient.createTextTemplate(
+      templateName,
+      node.content,
+      language,
+      variables,
+    );
+
+    if (result.success && result.contentSid) {
+      logger.log(`Content Template created: ${result.contentSid}`);
+      const cacheValue: ContentTemplateCacheValue = {
+        contentSid: result.contentSid,
+        templateType: 'text',
+        templateName,
+        nodeId: node.id,
+        flowName: flow.name,
+        language,
+      };
+      await this.setCachedJson(cacheKey, cacheValue);
+      await this.registerContentTemplate(cacheKey, cacheValue);
+      return result.contentSid;
+    }
+
+    // Se falhar, o builder troca os {{n}} por expressões Liquid no corpo da mensagem
+    logger.warn(`Failed to create Content Template for node "${node.id}": ${result.error}`);
+    logger.warn('Falling back to custom message');
+    return undefined;
+  }
+
+  async unpublish(id: string): Promise<FlowPublishResult> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) {
+      return { success: false, error: 'Flow not found' };
+    }
+
+    if (!flow.twilio_flow_sid) {
+      return { success: false, error: 'Flow is not published on Twilio' };
+    }
+
+    if (!twilioStudioClient.isConfigured()) {
+      return { success: false, error: 'Twilio credentials not configured' };
+    }
+
+    const result = await twilioStudioClient.setFlowStatus(flow.twilio_flow_sid, 'draft');
+
+    if (result.success) {
+      // Sem o snapshot o flow deixa de contar como publicado (subflows, horários, diff)
+      await flowsRepository.clearPublished(id);
+      return { success: true, twilioFlowSid: flow.twilio_flow_sid };
+    }
+
+    return { success: false, error: result.error };
+  }
+
+  async validate(id: string): Promise<{ valid: boolean; errors?: string[] }> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) {
+      return { valid: false, errors: ['Flow not found'] };
+    }
+
+    if (!twilioStudioClient.isConfigured()) {
+      return { valid: false, errors: ['Twilio credentials not configured'] };
+    }
+
+    try {
+      const definition = await this.buildDefinition(flow);
+      return twilioStudioClient.validateFlow(flow.name, definition);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to build flow definition';
+      return { valid: false, errors: [message] };
+    }
+  }
+
+  async lint(id: string): Promise<FlowLintResult | null> {
+    const flow = await flowsRepository.findById(id);
+    return flow ? lintFlow(flow) : null;
+  }
+
+  /**
+   * Executa o flow localmente com respostas roteirizadas (sem chamadas à Twilio).
+   */
+  async simulate(id: string, input: FlowSimulationInput): Promise<FlowSimulationResult | null> {
+    const flow = await flowsRepository.findById(id);
+    if (!flow) return null;
+
+    const context = await this.resolveBuildContext(flow);
+    return flowSimulator.simulate(flow, input, context);
+  }
+
+  private validateFlowInput(input: FlowInput): void {
+    if (!input.name || input.name.trim().length === 0) {
+      throw new Error('Flow name is required');
+    }
+
+    if (!input.nodes || input.nodes.length === 0) {
+      throw new Error('Flow must have at least one node');
+    }
+
+    if (!input.startNodeId) {
+      throw new Error('Start node ID is required');
+    }
+
+    this.validateDefaultLocale(input.defaultLocale);
+    this.validateNodes(input.nodes, input.startNodeId);
+  }
+
+  private validateDefaultLocale(locale?: string): void {
+    if (locale !== undefined && !LOCALE_PATTERN.test(locale)) {
+      throw new Error(`Invalid default locale "${locale}"`);
+    }
+  }
+
+  private validateNodes(nodes: FlowInput['nodes'], startNodeId: string): void {
+    const nodeIds = new Set(nodes.map((n) => n.id));
+
+    // Verificar se startNodeId existe
+    if (!nodeIds.has(startNodeId)) {
+      throw new Error(`Start node "${startNodeId}" not found in nodes`);
+    }
+
+    // Verificar referências de nextNodeId
+    for (const node of nodes) {
+      if (node.nextNodeId && !nodeIds.has(node.nextNodeId)) {
+        throw new Error(`Node "${node.id}" references non-existent node "${node.nextNodeId}"`);
+      }
+
+      // Verificar referências em buttons
+      if (node.buttons) {
+        this.validateButtons(node, nodeIds);
+      }
+
+      if (node.type === 'condition') {
+        this.validateConditionNode(node, nodeIds);
+      }
+
+      if (node.type === 'http') {
+        this.validateHttpNode(node, nodeIds);
+      }
+
+      // Em nodes de botões, a mídia vira a imagem do card
+      if (node.type === 'media' || (node.type === 'buttons' && node.media)) {
+        this.validateMediaNode(node);
+      }
+
+      if (node.translations) {
+        this.validateTranslations(node);
+      }
+
+      this.validateContentVariables(node);
+
+      // Com Content Template o texto enviado é o do template (ex.: importado do Console)
+      const sendsContent =
+        node.type === 'message' || node.type === 'question' || node.type === 'buttons';
+      if (sendsContent && node.content.trim().length === 0 && !node.contentTemplateSid) {
+        throw new Error(`Node "${node.id}" requires content`);
+      }
+
+      if (node.type === 'end' && node.nextNodeId) {
+        throw new Error(`End node "${node.id}" cannot have a next node`);
+      }
+
+      if (node.type === 'subflow') {
+        if (!node.subflow?.flowId) {
+          throw new Error(`Subflow node "${node.id}" requires a flowId`);
+        }
+        if (node.subflow.failedNodeId && !nodeIds.has(node.subflow.failedNodeId)) {
+          throw new Error(
+            `Subflow node "${node.id}" references non-existent node "${node.subflow.failedNodeId}"`,
+          );
+        }
+      }
+
+      if (node.type === 'hours') {
+        if (!node.hours?.scheduleId) {
+          throw new Error(`Hours node "${node.id}" requires a scheduleId`);
+        }
+        if (node.hours.closedNodeId && !nodeIds.has(node.hours.closedNodeId)) {
+          throw new Error(
+            `Hours node "${node.id}" references non-existent node "${node.hours.closedNodeId}"`,
+          );
+        }
+      }
+
+      if (node.validation) {
+        this.validateQuestionValidation(node, nodeIds);
+      }
+
+      this.validateFallbackBranches(node, nodeIds);
+
+      if (node.saveAs !== undefined) {
+        if (node.type !== 'question') {
+          throw new Error(`Node "${node.id}" uses saveAs, which is only supported by questions`);
+        }
+        if (!VARIABLE_NAME_PATTERN.test(node.saveAs) || RESERVED_VARIABLES.has(node.saveAs)) {
+          throw new Error(`Node "${node.id}" has an invalid saveAs variable "${node.saveAs}"`);
+        }
+      }
+    }
+
+    // Verificar IDs duplicados
+    if (nodeIds.size !== nodes.length) {
+      throw new Error('Duplicate node IDs found');
+    }
+  }
+
+  private validateMediaNode(node: FlowNode): void {
+    const urls = node.media?.urls ?? [];
+
+    if (urls.length === 0) {
+      throw new Error(`Media node "${node.id}" requires at least one URL`);
+    }
+
+    if (urls.length > MAX_MEDIA_URLS) {
+      throw new Error(`Media node "${node.id}" supports a maximum of ${MAX_MEDIA_URLS} URL`);
+    }
+
+    for (const url of urls) {
+      if (!/^https?:\/\//i.test(url) && !url.startsWith('{{')) {
+        throw new Error(`Media node "${node.id}" has an invalid URL "${url}"`);
+      }
+    }
+  }
+
+  private validateButtons(node: FlowNode, nodeIds: Set<string>): void {
+    const buttons = node.buttons ?? [];
+
+    for (const button of buttons) {
+      const kind = button.kind ?? 'reply';
+
+      if (kind === 'reply') {
+        if (!button.nextNodeId || !nodeIds.has(button.nextNodeId)) {
+          throw new Error(
+            `Button "${button.label}" in node "${node.id}" references non-existent node "${button.nextNodeId}"`,
+          );
+        }
+        continue;
+      }
+
+      // url/phone não criam ramo: o flow segue por node.nextNodeId
+      if (button.nextNodeId) {
+        throw new Error(
+          `Button "${button.label}" in node "${node.id}" is a ${kind} button and cannot have a next node`,
+        );
+      }
+
+      if (kind === 'url' && !/^https:\/\//i.test(button.value)) {
+        throw new Error(`Button "${button.label}" in node "${node.id}" requires an https URL`);
+      }
+
+      if (kind === 'phone' && !PHONE_NUMBER_PATTERN.test(button.value)) {
+        throw new Error(
+          `Button "${button.label}" in node "${node.id}" requires an E.164 phone number`,
+        );
+      }
+    }
+
+    const urlCount = buttons.filter((btn) => btn.kind === 'url').length;
+    const phoneCount = buttons.filter((btn) => btn.kind === 'phone').length;
+
+    if (urlCount > MAX_URL_BUTTONS || phoneCount > MAX_PHONE_BUTTONS) {
+      throw new Error(
+        `Node "${node.id}" supports at most ${MAX_URL_BUTTONS} URL and ${MAX_PHONE_BUTTONS} phone buttons`,
+      );
+    }
+
+    // Botões de resposta junto com url/phone viram um card, que aceita até 3 ações
+    if (urlCount + phoneCount > 0 && buttons.length > MAX_CARD_ACTIONS) {
+      throw new Error(
+        `Node "${node.id}" mixes reply and call-to-action buttons and supports at most ${MAX_CARD_ACTIONS} buttons`,
+      );
+    }
+
+    if (isPaginatedMenu(node) && buttons.some((btn) => btn.id === MORE_OPTIONS_BUTTON_ID)) {
+      throw new Error(
+        `Node "${node.id}" has more than 10 options and cannot use the reserved button id "${MORE_OPTIONS_BUTTON_ID}"`,
+      );
+    }
+
+    // O menu em texto mostra o cabeçalho quando a seção muda: cada seção precisa ser contínua
+    const closedSections = new Set<string>();
+    let currentSection: string | undefined;
+    for (const button of buttons) {
+      if (button.section === currentSection) continue;
+      if (currentSection) closedSections.add(currentSection);
+      if (button.section && closedSections.has(button.section)) {
+        throw new Error(
+          `Node "${node.id}" splits section "${button.section}"; keep its buttons together`,
+        );
+      }
+      currentSection = button.section;
+    }
+  }
+
+  private validateTranslations(node: FlowNode): void {
+    if (!TRANSLATABLE_NODE_TYPES.has(node.type)) {
+      throw new Error(`Node "${node.id}" of type "${node.type}" does not support translations`);
+    }
+
+    const buttonIds = new Set((node.buttons ?? []).map((btn) => btn.id));
+    const requiresContent = node.type !== 'media' && node.type !== 'end';
+
+    for (const [locale, translation] of Object.entries(node.translations ?? {})) {
+      if (!LOCALE_PATTERN.test(locale)) {
+        throw new Error(`Node "${node.id}" has a translation with invalid locale "${locale}"`);
+      }
+
+      if (requiresContent && translation.content?.trim().length === 0) {
+        throw new Error(`Node "${node.id}" requires content in locale "${locale}"`);
+      }
+
+      for (const buttonId of Object.keys(translation.buttons ?? {})) {
+        if (!buttonIds.has(buttonId)) {
+          throw new Error(
+            `Node "${node.id}" translates non-existent button "${buttonId}" in locale "${locale}"`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Todo {{n}} do texto (idioma padrão e traduções) precisa de um vínculo, e todo vínculo
+   * precisa aparecer no texto padrão.
+   */
+  private validateContentVariables(node: FlowNode): void {
+    const bindings = node.contentVariables ?? {};
+    const keys = Object.keys(bindings);
+    const placeholders = getContentVariableKeys(node.content);
+
+    if (keys.length > 0 && !CONTENT_VARIABLE_NODE_TYPES.has(node.type)) {
+      throw new Error(
+        `Node "${node.id}" of type "${node.type}" does not support content variables`,
+      );
+    }
+
+    for (const [key, binding] of Object.entries(bindings)) {
+      if (!/^[1-9]\d*$/.test(key)) {
+        throw new Error(`Node "${node.id}" has an invalid content variable "${key}"`);
+      }
+      if (!CONTENT_VARIABLE_PATH_PATTERN.test(binding.path)) {
+        throw new Error(
+          `Node "${node.id}" has an invalid ${binding.source} path "${binding.path}" for {{${key}}}`,
+        );
+      }
+      if (binding.sample.trim().length === 0) {
+        throw new Error(`Node "${node.id}" requires a sample value for {{${key}}}`);
+      }
+      if (!placeholders.includes(key)) {
+        throw new Error(`Node "${node.id}" binds {{${key}}}, which is not used in its content`);
+      }
+    }
+
+    if (!CONTENT_VARIABLE_NODE_TYPES.has(node.type)) return;
+
+    const texts = [
+      node.content,
+      ...Object.values(node.translations ?? {}).map((translation) => translation.content ?? ''),
+    ];
+    for (const key of texts.flatMap(getContentVariableKeys)) {
+      if (!(key in bindings)) {
+        throw new Error(`Node "${node.id}" uses {{${key}}} without a content variable binding`);
+      }
+    }
+  }
+
+  private validateFallbackBranches(node: FlowNode, nodeIds: Set<string>): void {
+    const waitsForReply = node.type === 'question' || node.type === 'buttons';
+
+    if (node.onTimeoutNodeId && !waitsForReply) {
+      throw new Error(
+        `Node "${node.id}" uses onTimeoutNodeId, which requires a question or buttons`,
+      );
+    }
+
+    if (
+      node.onFailureNodeId &&
+      !waitsForReply &&
+      node.type !== 'message' &&
+      node.type !== 'media' &&
+      node.type !== 'transfer'
+    ) {
+      throw new Error(`Node "${node.id}" does not support onFailureNodeId`);
+    }
+
+    if ((node.onNoMatchNodeId || node.noMatchRetries !== undefined) && node.type !== 'buttons') {
+      throw new Error(`Node "${node.id}" uses no-match handling, which requires buttons`);
+    }
+
+    for (const targetId of [node.onTimeoutNodeId, node.onFailureNodeId, node.onNoMatchNodeId]) {
+      if (targetId && !nodeIds.has(targetId)) {
+        throw new Error(`Node "${node.id}" references non-existent node "${targetId}"`);
+      }
+    }
+  }
+
+  private validateQuestionValidation(node: FlowNode, nodeIds: Set<string>): void {
+    const validation = node.validation;
+    if (!validation) return;
+
+    if (node.type !== 'question') {
+      throw new Error(`Node "${node.id}" uses validation, which is only supported by questions`);
+    }
+
+    if (validation.type === 'regex') {
+      if (!validation.pattern) {
+        throw new Error(`Node "${node.id}" requires a pattern for regex validation`);
+      }
+      try {
+        new RegExp(validation.pattern);
+      } catch {
+        throw new Error(`Node "${node.id}" has an invalid validation regex`);
+      }
+    }
+
+    if (
+      validation.maxRetries !== undefined &&
+      (!Number.isInteger(validation.maxRetries) || validation.maxRetries < 0)
+    ) {
+      throw new Error(`Node "${node.id}" has an invalid maxRetries`);
+    }
+
+    if (validation.exhaustedNodeId && !nodeIds.has(validation.exhaustedNodeId)) {
+      throw new Error(
+        `Node "${node.id}" references non-existent node "${validation.exhaustedNodeId}"`,
+      );
+    }
+  }
+
+  private validateHttpNode(node: FlowNode, nodeIds: Set<string>): void {
+    const config = node.http;
+    if (!config) {
+      throw new Error(`HTTP node "${node.id}" requires an http configuration`);
+    }
+
+    // A URL pode começar com um placeholder ({{...}}), mas se for literal precisa ser http(s)
+    const url = config.url.trim();
+    if (!url.startsWith('{{') && !/^https?:\/\//i.test(url)) {
+      throw new Error(`HTTP node "${node.id}" has an invalid URL "${config.url}"`);
+    }
+
+    if (config.body && config.method === 'GET') {
+      throw new Error(`HTTP node "${node.id}" cannot send a body with GET`);
+    }
+
+    if (config.failedNodeId && !nodeIds.has(config.failedNodeId)) {
+      throw new Error(
+        `HTTP node "${node.id}" references non-existent node "${config.failedNodeId}"`,
+      );
+    }
+  }
+
+  private validateConditionNode(node: FlowNode, nodeIds: Set<string>): void {
+    const config = node.condition;
+    if (!config || config.rules.length === 0) {
+      throw new Error(`Condition node "${node.id}" must have at least one rule`);
+    }
+
+    const hasVariable = Boolean(config.variable);
+    const hasSource = Boolean(config.sourceNodeId);
+    if (hasVariable === hasSource) {
+      throw new Error(
+        `Condition node "${node.id}" must evaluate either a variable or a source node (exactly one)`,
+      );
+    }
+
+    if (config.variable && !VARIABLE_NAME_PATTERN.test(config.variable)) {
+      throw new Error(`Condition node "${node.id}" has an invalid variable "${config.variable}"`);
+    }
+
+    if (config.sourceNodeId && !nodeIds.has(config.sourceNodeId)) {
+      throw new Error(
+        `Condition node "${node.id}" references non-existent source node "${config.sourceNodeId}"`,
+      );
+    }
+
+    if (config.elseNodeId && !nodeIds.has(config.elseNodeId)) {
+      throw new Error(
+        `Condition node "${node.id}" references non-existent node "${config.elseNodeId}"`,
+      );
+    }
+
+    for (const rule of config.rules) {
+      if (!nodeIds.has(rule.nextNodeId)) {
+        throw new Error(
+          `Rule "${rule.id}" in node "${node.id}" references non-existent node "${rule.nextNodeId}"`,
+        );
+      }
+
+      if (rule.operator === 'is_empty' || rule.operator === 'is_not_empty') continue;
+
+      if (rule.value === undefined || rule.value === '') {
+        throw new Error(`Rule "${rule.id}" in node "${node.id}" requires a value`);
+      }
+
+      if (
+        (rule.operator === 'greater_than' || rule.operator === 'less_than') &&
+        !Number.isFinite(Number(rule.value))
+      ) {
+        throw new Error(`Rule "${rule.id}" in node "${node.id}" requires a numeric value`);
+      }
+
+      if (rule.operator === 'regex') {
+        try {
+          new RegExp(rule.value);
+        } catch {
+          throw new Error(`Rule "${rule.id}" in node "${node.id}" has an invalid regex`);
+        }
+      }
     }
   }
 }
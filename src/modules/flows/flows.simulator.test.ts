@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'bun:test';
+import { FlowSimulator } from './flows.simulator';
+import type { Flow, FlowButton, FlowNode } from './flows.types';
+
+function createNode(node: Partial<FlowNode> & Pick<FlowNode, 'id' | 'type'>): FlowNode {
+  return { position: { x: 0, y: 0 }, content: '', ...node };
+}
+
+function createFlow(nodes: FlowNode[], startNodeId = nodes[0]?.id ?? ''): Flow {
+  return {
+    id: 'flow-1',
+    name: 'Teste',
+    nodes,
+    start_node_id: startNodeId,
+    status: 'draft',
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+const menuButtons: FlowButton[] = [
+  { id: 'btn_sales', label: 'Vendas', value: 'comprar', nextNodeId: 'sales' },
+  { id: 'btn_support', label: 'Suporte', value: 'ajuda', nextNodeId: 'support' },
+];
+
+function createMenuFlow(menu: Partial<FlowNode> = {}): Flow {
+  return createFlow([
+    createNode({
+      id: 'menu',
+      type: 'buttons',
+      content: 'Escolha',
+      buttons: menuButtons,
+      onNoMatchNodeId: 'fallback',
+      ...menu,
+    }),
+    createNode({ id: 'sales', type: 'message', content: 'Vendas' }),
+    createNode({ id: 'support', type: 'message', content: 'Suporte' }),
+    createNode({ id: 'fallback', type: 'message', content: 'Não entendi' }),
+  ]);
+}
+
+describe('FlowSimulator', () => {
+  const simulator = new FlowSimulator();
+
+  it('matches typed replies by number, value or label', () => {
+    for (const reply of ['2', 'AJUDA', ' suporte ']) {
+      const result = simulator.simulate(createMenuFlow(), { replies: [reply] });
+      expect(result.status).toBe('completed');
+      expect(result.endedAt).toBe('support');
+    }
+  });
+
+  it('does not match typed replies by button id', () => {
+    const result = simulator.simulate(createMenuFlow({ noMatchRetries: 0 }), {
+      replies: ['btn_sales'],
+    });
+
+    expect(result.endedAt).toBe('fallback');
+    expect(result.branches[0]?.outcome).toBe('no_match');
+  });
+
+  it('retries the menu before following the no-match branch', () => {
+    const result = simulator.simulate(createMenuFlow({ noMatchRetries: 1 }), {
+      replies: ['x', 'y'],
+    });
+
+    expect(result.branches.map((branch) => branch.outcome)).toEqual(['no_match_retry', 'no_match']);
+    expect(result.endedAt).toBe('fallback');
+  });
+
+  it('stops waiting when replies run out and follows timeouts on null', () => {
+    const flow = createMenuFlow({ onTimeoutNodeId: 'fallback' });
+
+    expect(simulator.simulate(flow, { replies: [] }).status).toBe('waiting');
+    expect(simulator.simulate(flow, { replies: [null] }).endedAt).toBe('fallback');
+  });
+
+  it('saves validated answers and resolves them in later messages', () => {
+    const flow = createFlow([
+      createNode({
+        id: 'email',
+        type: 'question',
+        content: 'Seu e-mail?',
+        saveAs: 'email',
+        validation: { type: 'email', maxRetries: 1 },
+        nextNodeId: 'done',
+      }),
+      createNode({ id: 'done', type: 'end', content: 'Enviaremos para {{var.email}}' }),
+    ]);
+
+    const result = simulator.simulate(flow, { replies: ['invalido', 'ana@example.com'] });
+
+    expect(result.status).toBe('closed');
+    expect(result.variables.email).toBe('ana@example.com');
+    expect(result.branches[0]?.outcome).toBe('invalid');
+    expect(result.transcript.at(-1)?.text).toBe('Enviaremos para ana@example.com');
+  });
+
+  it('evaluates condition rules against the stored variable', () => {
+    const flow = createFlow([
+      createNode({
+        id: 'check',
+        type: 'condition',
+        condition: {
+          variable: 'plano',
+          rules: [{ id: 'rule_1', operator: 'equals', value: 'premium', nextNodeId: 'vip' }],
+          elseNodeId: 'regular',
+        },
+      }),
+      createNode({ id: 'vip', type: 'message', content: 'VIP' }),
+      createNode({ id: 'regular', type: 'message', content: 'Regular' }),
+    ]);
+
+    expect(simulator.simulate(flow, { replies: [], variables: { plano: 'Premium' } }).endedAt).toBe(
+      'vip',
+    );
+    expect(simulator.simulate(flow, { replies: [], variables: { plano: 'basic' } }).endedAt).toBe(
+      'regular',
+    );
+  });
+});
@@ -0,0 +1,442 @@
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_NO_MATCH_MESSAGE,
+  DEFAULT_NO_MATCH_RETRIES,
+  DEFAULT_VALIDATION_ERROR_MESSAGE,
+  getButtonMatchValues,
+  QUESTION_VALIDATOR_PATTERNS,
+} from './flows.builder';
+import { CONTENT_VARIABLE_PATTERN } from './flows.content';
+import { getReplyButtons } from './flows.graph';
+import { getTimezoneOffsetSeconds, timeToNumber } from './flows.hours';
+import { getFlowDefaultLocale, getFlowLocales, localizeNodes } from './flows.locales';
+import { paginateMenuNodes } from './flows.menus';
+import type {
+  ConditionRule,
+  Flow,
+  FlowBuildContext,
+  FlowNode,
+  FlowSimulationBranch,
+  FlowSimulationInput,
+  FlowSimulationMessage,
+  FlowSimulationResult,
+  FlowSimulationStatus,
+  FlowSimulationTransfer,
+} from './flows.types';
+
+// Evita loop infinito em flows que voltam para trás sem consumir respostas
+const MAX_STEPS = 200;
+
+const DEFAULT_TRIGGER = 'oi';
+
+type StepResult = { next?: string; status?: FlowSimulationStatus };
+
+/**
+ * Executa o grafo de nodes localmente, sem nenhuma chamada à Twilio, seguindo as mesmas
+ * regras que o builder gera para o Studio (match de botões, retries, splits).
+ */
+export class FlowSimulator {
+  private nodeMap: Map<string, FlowNode> = new Map();
+  private input: FlowSimulationInput = { replies: [] };
+  private context: FlowBuildContext = {};
+  private replyIndex = 0;
+  private variables: Record<string, string> = {};
+  private lastReplies: Map<string, string> = new Map();
+  private transcript: FlowSimulationMessage[] = [];
+  private branches: FlowSimulationBranch[] = [];
+  private transfer?: FlowSimulationTransfer;
+
+  simulate(
+    flow: Flow,
+    input: FlowSimulationInput,
+    context: FlowBuildContext = {},
+  ): FlowSimulationResult {
+    // Locale sem tradução no flow cai no idioma padrão, como no split de idioma do builder
+    const defaultLocale = getFlowDefaultLocale(flow);
+    const locale =
+      input.locale && getFlowLocales(flow).includes(input.locale) ? input.locale : defaultLocale;
+    // Menus longos seguem paginados como no builder ("mais opções" leva à próxima página)
+    const nodes = localizeNodes(
+      paginateMenuNodes(flow.nodes, defaultLocale),
+      locale,
+      defaultLocale,
+    );
+
+    this.nodeMap = new Map(nodes.map((node) => [node.id, node]));
+    this.input = input;
+    this.context = context;
+    this.replyIndex = 0;
+    this.variables = { ...(input.variables ?? {}) };
+    this.lastReplies = new Map();
+    this.transcript = [];
+    this.branches = [];
+    this.transfer = undefined;
+
+    this.transcript.push({
+      from: 'customer',
+      nodeId: 'Trigger',
+      text: input.trigger ?? DEFAULT_TRIGGER,
+    });
+
+    let currentId: string | undefined = flow.start_node_id;
+    let endedAt = flow.start_node_id;
+    let status: FlowSimulationStatus = 'step_limit';
+
+    for (let step = 0; step < MAX_STEPS; step++) {
+      const node = currentId ? this.nodeMap.get(currentId) : undefined;
+      if (!node) {
+        status = 'completed';
+        break;
+      }
+
+      endedAt = node.id;
+      const result = this.runNode(node);
+
+      if (result.status) {
+        status = result.status;
+        break;
+      }
+
+      currentId = result.next;
+    }
+
+    return {
+      status,
+      endedAt,
+      transcript: this.transcript,
+      branches: this.branches,
+      transfer: this.transfer,
+      variables: this.variables,
+      unusedReplies: Math.max(this.input.replies.length - this.replyIndex, 0),
+    };
+  }
+
+  private runNode(node: FlowNode): StepResult {
+    switch (node.type) {
+      case 'message':
+        this.say(node, node.content);
+        return this.follow(node.nextNodeId);
+      case 'media':
+        this.say(node, node.content, { media: node.media?.urls ?? [] });
+        return this.follow(node.nextNodeId);
+      case 'question':
+        return this.runQuestion(node);
+      case 'buttons':
+        return this.runButtons(node);
+      case 'condition':
+        return this.runCondition(node);
+      case 'http':
+        return this.runHttp(node);
+      case 'hours':
+        return this.runHours(node);
+      case 'subflow':
+        // O flow filho não é executado; segue como se tivesse completado
+        this.branch(node, 'completed', node.nextNodeId, node.subflow?.flowId);
+        return this.follow(node.nextNodeId);
+      case 'transfer':
+        return this.runTransfer(node);
+      case 'end':
+        if (node.content.trim()) this.say(node, node.content);
+        this.branch(node, 'closed');
+        return { status: 'closed' };
+      default:
+        return this.follow(node.nextNodeId);
+    }
+  }
+
+  private runQuestion(node: FlowNode): StepResult {
+    const validation = node.validation;
+    const maxRetries = validation?.maxRetries ?? DEFAULT_MAX_RETRIES;
+    let retries = 0;
+
+    while (true) {
+      this.say(node, node.content);
+
+      const reply = this.nextReply(node);
+      if (reply === undefined) return { status: 'waiting' };
+      if (reply === null) return this.timeout(node);
+
+      if (!validation || this.matchesValidation(node, reply)) {
+        if (node.saveAs) {
+          this.variables[node.saveAs] = reply;
+        }
+        return this.follow(node.nextNodeId);
+      }
+
+      // Mesmo contador do loop de retry do builder: estoura quando passa de maxRetries
+      retries++;
+      if (retries > maxRetries) {
+        const exhausted = validation.exhaustedNodeId;
+        this.branch(node, 'validation_exhausted', exhausted, reply);
+        return this.follow(exhausted);
+      }
+
+      this.branch(node, 'invalid', node.id, reply);
+      this.say(node, validation.errorMessage || DEFAULT_VALIDATION_ERROR_MESSAGE);
+    }
+  }
+
+  private runButtons(node: FlowNode): StepResult {
+    const labels = (node.buttons ?? []).map((btn) => btn.label);
+    const buttons = getReplyButtons(node);
+    const maxRetries = node.noMatchRetries ?? DEFAULT_NO_MATCH_RETRIES;
+    let retries = 0;
+
+    // Só url/phone: a mensagem é enviada e o flow segue sem esperar resposta
+    if (buttons.length === 0) {
+      this.say(node, node.content, { buttons: labels });
+      return this.follow(node.nextNodeId);
+    }
+
+    while (true) {
+      this.say(node, node.content, { buttons: labels });
+
+      const reply = this.nextReply(node);
+      if (reply === undefined) return { status: 'waiting' };
+      if (reply === null) return this.timeout(node);
+
+      // Resposta digitada: mesmos valores do split em texto (número, valor ou label)
+      const normalized = reply.trim().toLowerCase();
+      const index = buttons.findIndex((btn, i) =>
+        getButtonMatchValues(btn, i).includes(normalized),
+      );
+      const button = buttons[index];
+
+      if (button) {
+        this.branch(node, `button:${button.label}`, button.nextNodeId, reply);
+        return this.follow(button.nextNodeId);
+      }
+
+      retries++;
+      if (maxRetries === 0 || retries > maxRetries) {
+        this.branch(node, 'no_match', node.onNoMatchNodeId, reply);
+        return this.follow(node.onNoMatchNodeId);
+      }
+
+      this.branch(node, 'no_match_retry', node.id, reply);
+      this.say(node, DEFAULT_NO_MATCH_MESSAGE);
+    }
+  }
+
+  private runCondition(node: FlowNode): StepResult {
+    const config = node.condition;
+    const value = config?.sourceNodeId
+      ? (this.lastReplies.get(config.sourceNodeId) ?? '')
+      : (this.variables[config?.variable ?? ''] ?? '');
+
+    const rule = config?.rules.find((candidate) => this.matchesRule(candidate, value));
+    if (rule) {
+      this.branch(node, `rule:${rule.id}`, rule.nextNodeId, value);
+      return this.follow(rule.nextNodeId);
+    }
+
+    this.branch(node, 'else', config?.elseNodeId, value);
+    return this.follow(config?.elseNodeId);
+  }
+
+  private runHttp(node: FlowNode): StepResult {
+    // Nenhuma requisição é feita: a resposta vem de input.httpResponses (default: sucesso)
+    const response = this.input.httpResponses?.[node.id];
+    const url = this.resolvePlaceholders(node.http?.url ?? '');
+
+    if (response?.failed) {
+      this.branch(node, 'failed', node.http?.failedNodeId, url);
+      return this.follow(node.http?.failedNodeId);
+    }
+
+    this.branch(node, 'success', node.nextNodeId, url);
+    return this.follow(node.nextNodeId);
+  }
+
+  private runHours(node: FlowNode): StepResult {
+    const schedule = node.hours ? this.context.schedules?.get(node.hours.scheduleId) : undefined;
+    const now = this.input.now ?? this.context.now ?? new Date();
+    let open = false;
+
+    if (schedule) {
+      // Mesmo cálculo do builder: horário local = UTC + offset do timezone
+      const offset = getTimezoneOffsetSeconds(schedule.timezone, now);
+      const local = new Date(now.getTime() + offset * 1000);
+      const date = local.toISOString().slice(0, 10);
+      const day = local.getUTCDay();
+      const time = local.getUTCHours() * 100 + local.getUTCMinutes();
+
+      open =
+        !schedule.holidays.includes(date) &&
+        schedule.windows.some(
+          (window) =>
+            window.day === day &&
+            time >= timeToNumber(window.start) &&
+            time < timeToNumber(window.end),
+        );
+    }
+
+    const next = open ? node.nextNodeId : node.hours?.closedNodeId;
+    this.branch(node, open ? 'open' : 'closed', next, now.toISOString());
+    return this.follow(next);
+  }
+
+  private runTransfer(node: FlowNode): StepResult {
+    const config = node.transferConfig ?? {};
+    const attributes: Record<string, string> = {
+      type: 'inbound',
+      name: '{{trigger.message.ChannelAttributes.from}}',
+    };
+
+    for (const [key, value] of Object.entries(config.attributes ?? {})) {
+      attributes[key] = this.resolvePlaceholders(value);
+    }
+
+    this.transfer = {
+      nodeId: node.id,
+      workflowSid: config.workflowSid,
+      channelSid: config.channelSid,
+      priority: config.priority || 0,
+      timeout: config.timeout || 86400,
+      attributes,
+    };
+
+    this.branch(node, 'transferred');
+    return { status: 'transferred' };
+  }
+
+  private timeout(node: FlowNode): StepResult {
+    this.branch(node, 'timeout', node.onTimeoutNodeId);
+    return this.follow(node.onTimeoutNodeId);
+  }
+
+  // Sem próximo node o Studio encerra a execução
+  private follow(next?: string): StepResult {
+    return next ? { next } : { status: 'completed' };
+  }
+
+  /**
+   * undefined = acabaram as respostas; null = timeout simulado.
+   */
+  private nextReply(node: FlowNode): string | null | undefined {
+    if (this.replyIndex >= this.input.replies.length) return undefined;
+
+    const reply = this.input.replies[this.replyIndex++] ?? null;
+    if (reply !== null) {
+      this.transcript.push({ from: 'customer', nodeId: node.id, text: reply });
+      this.lastReplies.set(node.id, reply);
+    }
+    return reply;
+  }
+
+  private matchesValidation(node: FlowNode, reply: string): boolean {
+    const validation = node.validation;
+    if (!validation) return true;
+
+    const pattern =
+      validation.type === 'regex'
+        ? validation.pattern || ''
+        : QUESTION_VALIDATOR_PATTERNS[validation.type];
+
+    try {
+      return new RegExp(pattern).test(reply.trim());
+    } catch {
+      return false;
+    }
+  }
+
+  private matchesRule(rule: ConditionRule, value: string): boolean {
+    const actual = value.trim().toLowerCase();
+    const expected = this.resolvePlaceholders(rule.value ?? '')
+      .trim()
+      .toLowerCase();
+
+    switch (rule.operator) {
+      case 'equals':
+        return actual === expected;
+      case 'not_equals':
+        return actual !== expected;
+      case 'contains':
+        return actual.includes(expected);
+      case 'not_contains':
+        return !actual.includes(expected);
+      case 'regex':
+        try {
+          return new RegExp(rule.value ?? '').test(value);
+        } catch {
+          return false;
+        }
+      case 'greater_than':
+        return Number(actual) > Number(expected);
+      case 'less_than':
+        return Number(actual) < Number(expected);
+      case 'is_empty':
+        return actual === '';
+      case 'is_not_empty':
+        return actual !== '';
+      default:
+        return false;
+    }
+  }
+
+  private say(
+    node: FlowNode,
+    text: string,
+    extra: Pick<FlowSimulationMessage, 'buttons' | 'media'> = {},
+  ): void {
+    this.transcript.push({
+      from: 'bot',
+      nodeId: node.id,
+      text: this.resolvePlaceholders(this.resolveContentVariables(node, text)),
+      ...extra,
+    });
+  }
+
+  /**
+   * {{n}} dos Content Templates: valor atual da variável do flow ou, sem ele (campos do
+   * trigger, variáveis ainda não definidas), o valor de exemplo do vínculo.
+   */
+  private resolveContentVariables(node: FlowNode, text: string): string {
+    const bindings = node.contentVariables;
+    if (!bindings) return text;
+
+    return text.replace(CONTENT_VARIABLE_PATTERN, (match, key: string) => {
+      const binding = bindings[key];
+      if (!binding) return match;
+      if (binding.source === 'variable' && binding.path in this.variables) {
+        return this.variables[binding.path] ?? binding.sample;
+      }
+      return binding.sample;
+    });
+  }
+
+  private branch(node: FlowNode, outcome: string, nextNodeId?: string, input?: string): void {
+    this.branches.push({ nodeId: node.id, type: node.type, input, outcome, nextNodeId });
+  }
+
+  /**
+   * Resolve {{var.x}}, {{flow.variables.x}} e {{http.<node>.campo}} com os dados da simulação.
+   * Placeholders com filtros Liquid ou desconhecidos ficam como estão.
+   */
+  private resolvePlaceholders(text: string): string {
+    return text
+      .replace(/\{\{\s*(?:var|flow\.variables)\.([a-zA-Z0-9_]+)\s*\}\}/g, (match, name: string) =>
+        name in this.variables ? (this.variables[name] ?? '') : match,
+      )
+      .replace(
+        /\{\{\s*http\.([a-zA-Z0-9_-]+)((?:\.[a-zA-Z0-9_]+)*)\s*\}\}/g,
+        (match, nodeId: string, path: string) => {
+          const body = this.input.httpResponses?.[nodeId]?.body;
+          if (body === undefined) return match;
+
+          let value: unknown = body;
+          for (const key of path.split('.').filter(Boolean)) {
+            value =
+              value && typeof value === 'object'
+                ? (value as Record<string, unknown>)[key]
+                : undefined;
+          }
+
+          if (value === undefined) return '';
+          return typeof value === 'string' ? value : JSON.stringify(value);
+        },
+      );
+  }
+}
+
+export const flowSimulator = new FlowSimulator();
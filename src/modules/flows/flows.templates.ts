@@ -0,0 +1,586 @@
+import { BUTTON_LABEL_MAX } from './flows.content';
+import type { FlowButton, FlowInput, FlowNode, TransferConfig } from './flows.types';
+
+// ============================================
+// Catálogo de templates de flow parametrizados
+// ============================================
+
+export type FlowTemplateParameterType =
+  | 'string'
+  | 'buttons' // [{ id, label, value }]
+  | 'faq' // [{ pergunta, resposta, rotulo? }]
+  | 'transferConfig';
+
+export interface FlowTemplateParameter {
+  name: string;
+  type: FlowTemplateParameterType;
+  required: boolean;
+  description: string;
+  default?: string;
+}
+
+export interface FlowTemplate {
+  key: string;
+  name: string;
+  description: string;
+  parameters: FlowTemplateParameter[];
+  build: (params: FlowTemplateParams) => FlowInput;
+}
+
+export type FlowTemplateParams = Record<string, unknown>;
+
+// Auto layout do builder é usado quando todas as posições são 0,0
+const ORIGIN = { x: 0, y: 0 };
+
+const MAX_MENU_BUTTONS = 10;
+
+function readString(params: FlowTemplateParams, name: string, fallback?: string): string {
+  const value = params[name] ?? fallback;
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Template parameter "${name}" is required`);
+  }
+  return value;
+}
+
+function readOptionalString(params: FlowTemplateParams, name: string): string | undefined {
+  const value = params[name];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`Template parameter "${name}" must be a string`);
+  }
+  return value;
+}
+
+function readList(params: FlowTemplateParams, name: string): Array<Record<string, unknown>> {
+  const value = params[name];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Template parameter "${name}" must be a non-empty list`);
+  }
+  if (value.length > MAX_MENU_BUTTONS) {
+    throw new Error(`Template parameter "${name}" supports a maximum of ${MAX_MENU_BUTTONS} items`);
+  }
+  return value.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new Error(`Template parameter "${name}[${index}]" must be an object`);
+    }
+    return item as Record<string, unknown>;
+  });
+}
+
+function readOptionalNumber(params: FlowTemplateParams, name: string): number | undefined {
+  const value = params[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Template parameter "${name}" must be a number`);
+  }
+  return value;
+}
+
+// Campos conhecidos, um a um: o objeto vem do corpo da requisição sem schema próprio
+function readTransferConfig(params: FlowTemplateParams): TransferConfig {
+  const value = params.transferConfig;
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Template parameter "transferConfig" must be an object');
+  }
+
+  // Chaves prefixadas para as mensagens de erro apontarem o campo (ex.: transferConfig.priority)
+  const raw: FlowTemplateParams = Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [`transferConfig.${key}`, field]),
+  );
+  const config: TransferConfig = {};
+
+  const workflowSid = readOptionalString(raw, 'transferConfig.workflowSid');
+  const channelSid = readOptionalString(raw, 'transferConfig.channelSid');
+  const priority = readOptionalNumber(raw, 'transferConfig.priority');
+  const timeout = readOptionalNumber(raw, 'transferConfig.timeout');
+  if (workflowSid) config.workflowSid = workflowSid;
+  if (channelSid) config.channelSid = channelSid;
+  if (priority !== undefined) config.priority = priority;
+  if (timeout !== undefined) config.timeout = timeout;
+
+  const attributes = raw['transferConfig.attributes'];
+  if (attributes !== undefined && attributes !== null) {
+    if (
+      typeof attributes !== 'object' ||
+      Array.isArray(attributes) ||
+      Object.values(attributes).some((attribute) => typeof attribute !== 'string')
+    ) {
+      throw new Error('Template parameter "transferConfig.attributes" must map names to strings');
+    }
+    config.attributes = attributes as Record<string, string>;
+  }
+
+  return config;
+}
+
+/**
+ * Label do botão de uma pergunta do FAQ: o rótulo informado ou a pergunta, encurtada com
+ * reticências quando passa do limite de título dos templates.
+ */
+function getFaqButtonLabel(item: Record<string, unknown>, pergunta: string, index: number): string {
+  const rotulo = readOptionalString(item, 'rotulo');
+  if (rotulo) {
+    if (rotulo.length > BUTTON_LABEL_MAX) {
+      throw new Error(
+        `Template parameter "perguntas[${index}].rotulo" exceeds ${BUTTON_LABEL_MAX} characters`,
+      );
+    }
+    return rotulo;
+  }
+
+  const trimmed = pergunta.trim();
+  return trimmed.length > BUTTON_LABEL_MAX
+    ? `${trimmed.slice(0, BUTTON_LABEL_MAX - 1).trimEnd()}…`
+    : trimmed;
+}
+
+// Gera IDs de node seguros e únicos dentro do flow
+function createIdFactory(reserved: string[]): (prefix: string, raw: string) => string {
+  const usedNodeIds = new Set<string>(reserved);
+
+  return (prefix, raw) => {
+    const base = `${prefix}_${raw}`.replace(/[^a-zA-Z0-9_]/g, '_');
+    let candidate = base;
+    let counter = 1;
+    while (usedNodeIds.has(candidate)) {
+      candidate = `${base}_${counter}`;
+      counter++;
+    }
+    usedNodeIds.add(candidate);
+    return candidate;
+  };
+}
+
+// Menu de botões em que cada opção transfere para a fila (antigo POST /flows/menu)
+const menuTemplate: FlowTemplate = {
+  key: 'menu',
+  name: 'Menu com transferência',
+  description: 'Menu de botões; cada opção transfere para um atendente com o botão escolhido',
+  parameters: [
+    { name: 'titulo', type: 'string', required: true, description: 'Nome do flow' },
+    { name: 'descricao', type: 'string', required: false, description: 'Descrição do flow' },
+    { name: 'mensagem', type: 'string', required: true, description: 'Texto do menu' },
+    { name: 'botoes', type: 'buttons', required: true, description: 'Opções (até 10)' },
+    {
+      name: 'transferConfig',
+      type: 'transferConfig',
+      required: false,
+      description: 'Configuração da transferência',
+    },
+  ],
+  build: (params) => {
+    const menuNodeId = 'menu';
+    const botoes = readList(params, 'botoes').map((btn) => ({
+      id: readString(btn, 'id'),
+      label: readString(btn, 'label'),
+      value: readString(btn, 'value'),
+    }));
+
+    const seenButtonIds = new Set<string>();
+    for (const btn of botoes) {
+      if (seenButtonIds.has(btn.id)) {
+        throw new Error(`Duplicate button id: "${btn.id}"`);
+      }
+      seenButtonIds.add(btn.id);
+    }
+
+    const makeSafeId = createIdFactory([menuNodeId]);
+    const baseConfig = readTransferConfig(params);
+    const buttons: FlowButton[] = [];
+
+    const transferNodes: FlowNode[] = botoes.map((btn) => {
+      const transferNodeId = makeSafeId('transfer', btn.id);
+      buttons.push({ id: btn.id, label: btn.label, value: btn.value, nextNodeId: transferNodeId });
+
+      return {
+        id: transferNodeId,
+        type: 'transfer',
+        position: ORIGIN,
+        content: 'Transferindo...',
+        transferConfig: {
+          ...baseConfig,
+          priority: baseConfig.priority ?? 1,
+          timeout: baseConfig.timeout ?? 3600,
+          attributes: {
+            ...(baseConfig.attributes || {}),
+            selected_button_id: btn.id,
+            selected_button_value: btn.value,
+            selected_button_label: btn.label,
+          },
+        },
+      };
+    });
+
+    return {
+      name: readString(params, 'titulo'),
+      description: readOptionalString(params, 'descricao'),
+      startNodeId: menuNodeId,
+      nodes: [
+        {
+          id: menuNodeId,
+          type: 'buttons',
+          position: ORIGIN,
+          content: readString(params, 'mensagem'),
+          buttons,
+          timeout: 3600,
+        },
+        ...transferNodes,
+      ],
+    };
+  },
+};
+
+// Menu de perguntas frequentes: cada botão responde e encerra a conversa
+const faqTemplate: FlowTemplate = {
+  key: 'faq',
+  name: 'FAQ',
+  description: 'Menu de perguntas frequentes com resposta automática',
+  parameters: [
+    { name: 'titulo', type: 'string', required: true, description: 'Nome do flow' },
+    {
+      name: 'mensagem',
+      type: 'string',
+      required: false,
+      description: 'Texto do menu',
+      default: 'Sobre o que você quer saber?',
+    },
+    {
+      name: 'perguntas',
+      type: 'faq',
+      required: true,
+      description: `Perguntas e respostas (até 10); rotulo opcional com até ${BUTTON_LABEL_MAX} caracteres`,
+    },
+    {
+      name: 'despedida',
+      type: 'string',
+      required: false,
+      description: 'Mensagem final',
+      default: 'Obrigado pelo contato!',
+    },
+  ],
+  build: (params) => {
+    const makeSafeId = createIdFactory(['menu', 'fim']);
+    const buttons: FlowButton[] = [];
+
+    const answerNodes: FlowNode[] = readList(params, 'perguntas').map((item, index) => {
+      const pergunta = readString(item, 'pergunta');
+      const label = getFaqButtonLabel(item, pergunta, index);
+      const answerNodeId = makeSafeId('resposta', String(index + 1));
+      buttons.push({
+        id: `faq_${index + 1}`,
+        label,
+        value: pergunta,
+        // Pergunta encurtada no botão: o texto completo vai na descrição do item
+        description: label === pergunta.trim() ? undefined : pergunta,
+        nextNodeId: answerNodeId,
+      });
+
+      return {
+        id: answerNodeId,
+        type: 'message',
+        position: ORIGIN,
+        content: readString(item, 'resposta'),
+        nextNodeId: 'fim',
+      };
+    });
+
+    return {
+      name: readString(params, 'titulo'),
+      startNodeId: 'menu',
+      nodes: [
+        {
+          id: 'menu',
+          type: 'buttons',
+          position: ORIGIN,
+          content: readString(params, 'mensagem', 'Sobre o que você quer saber?'),
+          buttons,
+        },
+        ...answerNodes,
+        {
+          id: 'fim',
+          type: 'end',
+          position: ORIGIN,
+          content: readString(params, 'despedida', 'Obrigado pelo contato!'),
+        },
+      ],
+    };
+  },
+};
+
+// Pesquisa NPS: nota 0-10 e comentário para detratores
+const npsTemplate: FlowTemplate = {
+  key: 'nps',
+  name: 'Pesquisa NPS',
+  description: 'Pergunta a nota de 0 a 10 e pede um comentário quando a nota é menor que 7',
+  parameters: [
+    { name: 'titulo', type: 'string', required: true, description: 'Nome do flow' },
+    {
+      name: 'pergunta',
+      type: 'string',
+      required: false,
+      description: 'Pergunta da nota',
+      default: 'De 0 a 10, o quanto você recomendaria nossa empresa?',
+    },
+    {
+      name: 'comentario',
+      type: 'string',
+      required: false,
+      description: 'Pergunta para notas baixas',
+      default: 'Que pena! O que podemos melhorar?',
+    },
+    {
+      name: 'agradecimento',
+      type: 'string',
+      required: false,
+      description: 'Mensagem final',
+      default: 'Obrigado pela sua avaliação!',
+    },
+  ],
+  build: (params) => ({
+    name: readString(params, 'titulo'),
+    startNodeId: 'nota',
+    nodes: [
+      {
+        id: 'nota',
+        type: 'question',
+        position: ORIGIN,
+        content: readString(
+          params,
+          'pergunta',
+          'De 0 a 10, o quanto você recomendaria nossa empresa?',
+        ),
+        saveAs: 'nps_score',
+        validation: {
+          type: 'regex',
+          pattern: '^(10|[0-9])$',
+          errorMessage: 'Por favor, responda com um número de 0 a 10.',
+        },
+        nextNodeId: 'avaliar',
+      },
+      {
+        id: 'avaliar',
+        type: 'condition',
+        position: ORIGIN,
+        content: 'Nota menor que 7?',
+        condition: {
+          variable: 'nps_score',
+          rules: [{ id: 'detrator', operator: 'less_than', value: '7', nextNodeId: 'comentario' }],
+          elseNodeId: 'fim',
+        },
+      },
+      {
+        id: 'comentario',
+        type: 'question',
+        position: ORIGIN,
+        content: readString(params, 'comentario', 'Que pena! O que podemos melhorar?'),
+        saveAs: 'nps_comment',
+        nextNodeId: 'fim',
+      },
+      {
+        id: 'fim',
+        type: 'end',
+        position: ORIGIN,
+        content: readString(params, 'agradecimento', 'Obrigado pela sua avaliação!'),
+      },
+    ],
+  }),
+};
+
+// Captura de lead: nome, e-mail e telefone, com envio opcional para um webhook
+const leadCaptureTemplate: FlowTemplate = {
+  key: 'lead_capture',
+  name: 'Captura de lead',
+  description: 'Coleta nome, e-mail e telefone e, opcionalmente, envia para um webhook',
+  parameters: [
+    { name: 'titulo', type: 'string', required: true, description: 'Nome do flow' },
+    {
+      name: 'saudacao',
+      type: 'string',
+      required: false,
+      description: 'Primeira mensagem',
+      default: 'Olá! Vamos te conhecer melhor.',
+    },
+    {
+      name: 'webhookUrl',
+      type: 'string',
+      required: false,
+      description: 'URL que recebe o lead (POST JSON)',
+    },
+    {
+      name: 'agradecimento',
+      type: 'string',
+      required: false,
+      description: 'Mensagem final',
+      default: 'Obrigado! Em breve entraremos em contato.',
+    },
+  ],
+  build: (params) => {
+    const webhookUrl = readOptionalString(params, 'webhookUrl');
+    const afterPhone = webhookUrl ? 'enviar' : 'fim';
+
+    const nodes: FlowNode[] = [
+      {
+        id: 'saudacao',
+        type: 'message',
+        position: ORIGIN,
+        content: readString(params, 'saudacao', 'Olá! Vamos te conhecer melhor.'),
+        nextNodeId: 'nome',
+      },
+      {
+        id: 'nome',
+        type: 'question',
+        position: ORIGIN,
+        content: 'Qual é o seu nome?',
+        saveAs: 'lead_name',
+        nextNodeId: 'email',
+      },
+      {
+        id: 'email',
+        type: 'question',
+        position: ORIGIN,
+        content: 'Qual é o seu e-mail?',
+        saveAs: 'lead_email',
+        validation: { type: 'email', errorMessage: 'E-mail inválido. Tente novamente.' },
+        nextNodeId: 'telefone',
+      },
+      {
+        id: 'telefone',
+        type: 'question',
+        position: ORIGIN,
+        content: 'Qual é o seu telefone com DDD?',
+        saveAs: 'lead_phone',
+        validation: { type: 'phone', errorMessage: 'Telefone inválido. Tente novamente.' },
+        nextNodeId: afterPhone,
+      },
+    ];
+
+    if (webhookUrl) {
+      nodes.push({
+        id: 'enviar',
+        type: 'http',
+        position: ORIGIN,
+        content: 'Enviar lead',
+        http: {
+          method: 'POST',
+          url: webhookUrl,
+          contentType: 'application/json',
+          body: JSON.stringify({
+            name: '{{var.lead_name}}',
+            email: '{{var.lead_email}}',
+            phone: '{{var.lead_phone}}',
+          }),
+          failedNodeId: 'fim',
+        },
+        nextNodeId: 'fim',
+      });
+    }
+
+    nodes.push({
+      id: 'fim',
+      type: 'end',
+      position: ORIGIN,
+      content: readString(params, 'agradecimento', 'Obrigado! Em breve entraremos em contato.'),
+    });
+
+    return { name: readString(params, 'titulo'), startNodeId: 'saudacao', nodes };
+  },
+};
+
+// "Falar com atendente": transfere direto, respeitando o horário de atendimento se informado
+const agentTemplate: FlowTemplate = {
+  key: 'talk_to_agent',
+  name: 'Falar com atendente',
+  description: 'Transfere para a fila; fora do horário de atendimento avisa e encerra',
+  parameters: [
+    { name: 'titulo', type: 'string', required: true, description: 'Nome do flow' },
+    {
+      name: 'mensagem',
+      type: 'string',
+      required: false,
+      description: 'Mensagem antes da transferência',
+      default: 'Aguarde, vou te transferir para um atendente.',
+    },
+    {
+      name: 'scheduleId',
+      type: 'string',
+      required: false,
+      description: 'Horário de atendimento (GET /flows/schedules)',
+    },
+    {
+      name: 'mensagemFechado',
+      type: 'string',
+      required: false,
+      description: 'Mensagem fora do horário',
+      default: 'Nosso atendimento está fechado no momento. Volte mais tarde!',
+    },
+    {
+      name: 'transferConfig',
+      type: 'transferConfig',
+      required: false,
+      description: 'Configuração da transferência',
+    },
+  ],
+  build: (params) => {
+    const scheduleId = readOptionalString(params, 'scheduleId');
+    const nodes: FlowNode[] = [];
+
+    if (scheduleId) {
+      nodes.push(
+        {
+          id: 'horario',
+          type: 'hours',
+          position: ORIGIN,
+          content: 'Horário de atendimento',
+          hours: { scheduleId, closedNodeId: 'fechado' },
+          nextNodeId: 'aviso',
+        },
+        {
+          id: 'fechado',
+          type: 'end',
+          position: ORIGIN,
+          content: readString(
+            params,
+            'mensagemFechado',
+            'Nosso atendimento está fechado no momento. Volte mais tarde!',
+          ),
+        },
+      );
+    }
+
+    nodes.push(
+      {
+        id: 'aviso',
+        type: 'message',
+        position: ORIGIN,
+        content: readString(params, 'mensagem', 'Aguarde, vou te transferir para um atendente.'),
+        nextNodeId: 'transferir',
+      },
+      {
+        id: 'transferir',
+        type: 'transfer',
+        position: ORIGIN,
+        content: 'Transferindo...',
+        transferConfig: readTransferConfig(params),
+      },
+    );
+
+    return {
+      name: readString(params, 'titulo'),
+      startNodeId: scheduleId ? 'horario' : 'aviso',
+      nodes,
+    };
+  },
+};
+
+export const FLOW_TEMPLATES: FlowTemplate[] = [
+  menuTemplate,
+  faqTemplate,
+  npsTemplate,
+  leadCaptureTemplate,
+  agentTemplate,
+];
+
+export function getFlowTemplate(key: string): FlowTemplate | undefined {
+  return FLOW_TEMPLATES.find((template) => template.key === key);
+}
@@ -2,19 +2,36 @@
 // Tipos do Modelo Simplificado (Input do Usuário)
 // ============================================
 
-export type FlowNodeType = 'message' | 'question' | 'buttons' | 'transfer';
-export type FlowStatus = 'draft' | 'published' | 'error';
+export type FlowNodeType =
+  | 'message'
+  | 'question'
+  | 'buttons'
+  | 'transfer'
+  | 'condition'
+  | 'http'
+  | 'hours'
+  | 'subflow'
+  | 'media'
+  | 'end';
+// published_with_changes: a versão publicada segue no ar, mas o rascunho já foi editado
+export type FlowStatus = 'draft' | 'published' | 'published_with_changes' | 'error';
 
 export interface Position {
   x: number;
   y: number;
 }
 
+// reply: resposta rápida (cria ramo); url/phone: call-to-action, abre o link ou liga
+export type FlowButtonKind = 'reply' | 'url' | 'phone';
+
 export interface FlowButton {
   id: string;
   label: string;
-  value: string;
-  nextNodeId: string;
+  value: string; // reply: valor aceito; url: URL https; phone: número E.164
+  kind?: FlowButtonKind; // Default: reply
+  nextNodeId?: string; // Obrigatório para reply; url/phone não criam ramo
+  description?: string; // Linha secundária do item no list-picker
+  section?: string; // Agrupa itens consecutivos do menu (cabeçalho no menu em texto)
 }
 
 export interface TransferConfig {
@@ -25,6 +42,76 @@ export interface TransferConfig {
   attributes?: Record<string, string>;
 }
 
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'regex'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface ConditionRule {
+  id: string;
+  operator: ConditionOperator;
+  value?: string; // Ignorado para is_empty / is_not_empty
+  nextNodeId: string;
+}
+
+export interface ConditionConfig {
+  variable?: string; // Avalia {{flow.variables.<variable>}}
+  sourceNodeId?: string; // Ou a resposta (inbound.Body) de um node anterior
+  rules: ConditionRule[];
+  elseNodeId?: string;
+}
+
+// O widget make-http-request do Studio só suporta GET e POST
+export type HttpMethod = 'GET' | 'POST';
+export type HttpContentType = 'application/json' | 'application/x-www-form-urlencoded';
+
+export interface HttpRequestConfig {
+  method: HttpMethod;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string; // JSON ou "chave=valor&..." (form), aceita placeholders
+  contentType?: HttpContentType;
+  failedNodeId?: string; // Sucesso segue por nextNodeId
+}
+
+export type QuestionValidatorType = 'cpf' | 'email' | 'phone' | 'date' | 'number' | 'regex';
+
+export interface QuestionValidation {
+  type: QuestionValidatorType;
+  pattern?: string; // Obrigatório quando type = 'regex'
+  maxRetries?: number; // Default: 3
+  errorMessage?: string;
+  exhaustedNodeId?: string; // Para onde seguir quando as tentativas acabarem
+}
+
+export interface HoursConfig {
+  scheduleId: string; // BusinessHoursSchedule.id (aberto segue por nextNodeId)
+  closedNodeId?: string;
+}
+
+export interface SubflowConfig {
+  flowId: string; // Flow.id do flow filho (completed segue por nextNodeId)
+  failedNodeId?: string;
+}
+
+export interface MediaConfig {
+  urls: string[]; // Uma URL pública (imagem, PDF, áudio); a legenda vem de FlowNode.content
+}
+
+// Conteúdo do node em outro idioma; o que não for traduzido herda do idioma padrão do flow
+export interface FlowNodeTranslation {
+  content?: string;
+  buttons?: Record<string, string>; // FlowButton.id -> label traduzido
+  contentTemplateSid?: string; // Gerado no publish, um por idioma
+  pageTemplateSids?: Array<string | null>; // Templates das páginas 2..n do menu neste idioma
+}
+
 export interface FlowNode {
   id: string;
   type: FlowNodeType;
@@ -33,8 +120,31 @@ export interface FlowNode {
   buttons?: FlowButton[];
   nextNodeId?: string;
   transferConfig?: TransferConfig;
+  condition?: ConditionConfig;
+  http?: HttpRequestConfig;
+  hours?: HoursConfig;
+  subflow?: SubflowConfig;
+  media?: MediaConfig;
+  saveAs?: string; // Nome da variável do flow que guarda a resposta de um node "question"
+  validation?: QuestionValidation;
+  onTimeoutNodeId?: string; // question/buttons: cliente não respondeu dentro do timeout
+  onFailureNodeId?: string; // Falha de entrega (message/question/buttons) ou de enfileiramento (transfer)
+  onNoMatchNodeId?: string; // buttons: resposta não corresponde a nenhuma opção
+  noMatchRetries?: number; // buttons: quantas vezes perguntar de novo antes de onNoMatchNodeId (default: 2)
   timeout?: number;
-  contentTemplateSid?: string; // HX SID para Content Templates (botões interativos)
+  contentTemplateSid?: string; // HX SID para Content Templates (botões interativos e mídia)
+  pageTemplateSids?: Array<string | null>; // Menus com mais de 10 opções: páginas 2..n (null = texto)
+  contentVariables?: Record<string, ContentVariableBinding>; // Chave = placeholder ("1" em {{1}})
+  translations?: Record<string, FlowNodeTranslation>; // Chave = locale (ex.: es, en)
+}
+
+// Origem do valor de um placeholder {{n}}: flow.variables.<path> ou trigger.<path>
+export type ContentVariableSource = 'variable' | 'trigger';
+
+export interface ContentVariableBinding {
+  source: ContentVariableSource;
+  path: string; // Ex.: pedido_codigo (variable) ou message.ProfileName (trigger)
+  sample: string; // Valor de exemplo da seção "variables" do template (exigido na aprovação)
 }
 
 export interface FlowInput {
@@ -42,6 +152,7 @@ export interface FlowInput {
   description?: string;
   nodes: FlowNode[];
   startNodeId: string;
+  defaultLocale?: string; // Idioma de node.content (default: pt_BR)
 }
 
 export interface FlowUpdateInput {
@@ -49,18 +160,29 @@ export interface FlowUpdateInput {
   description?: string;
   nodes?: FlowNode[];
   startNodeId?: string;
+  defaultLocale?: string;
 }
 
 // ============================================
 // Tipos do Modelo Persistido (Database)
 // ============================================
 
+// Cópia dos campos do rascunho no momento do último publish bem-sucedido
+export interface FlowPublishedSnapshot {
+  name: string;
+  nodes: FlowNode[];
+  start_node_id: string;
+  default_locale?: string;
+}
+
 export interface Flow {
   id: string;
   name: string;
   description?: string;
-  nodes: FlowNode[];
+  nodes: FlowNode[]; // Rascunho (working draft)
   start_node_id: string;
+  default_locale?: string;
+  published?: FlowPublishedSnapshot; // O que está no ar na Twilio
   twilio_flow_sid?: string;
   status: FlowStatus;
   error_message?: string;
@@ -69,6 +191,47 @@ export interface Flow {
   published_at?: Date;
 }
 
+// ============================================
+// Horário de atendimento (node "hours")
+// ============================================
+
+export interface BusinessHoursWindow {
+  day: number; // 0 = domingo ... 6 = sábado
+  start: string; // HH:mm
+  end: string; // HH:mm (exclusivo, precisa ser maior que start)
+}
+
+export interface BusinessHoursSchedule {
+  id: string;
+  name: string;
+  timezone: string; // IANA, ex.: America/Sao_Paulo
+  windows: BusinessHoursWindow[];
+  holidays: string[]; // YYYY-MM-DD
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BusinessHoursScheduleInput {
+  name: string;
+  timezone: string;
+  windows: BusinessHoursWindow[];
+  holidays?: string[];
+}
+
+export interface BusinessHoursScheduleUpdateInput {
+  name?: string;
+  timezone?: string;
+  windows?: BusinessHoursWindow[];
+  holidays?: string[];
+}
+
+// Dados externos ao flow que o builder precisa para gerar a definição
+export interface FlowBuildContext {
+  schedules?: Map<string, BusinessHoursSchedule>;
+  subflowSids?: Map<string, string>; // Flow.id -> twilio_flow_sid
+  now?: Date;
+}
+
 // ============================================
 // Tipos do Twilio Studio (Output do Builder)
 // ============================================
@@ -125,4 +288,249 @@ export interface FlowPublishResult {
   success: boolean;
   twilioFlowSid?: string;
   error?: string;
+  warnings?: string[]; // Templates ainda sem aprovação do WhatsApp (approvalPolicy 'warn')
+}
+
+// ignore: publica sem consultar; warn: publica e avisa; require: recusa sem aprovação
+export type FlowApprovalPolicy = 'ignore' | 'warn' | 'require';
+
+export interface FlowPublishOptions {
+  approvalPolicy?: FlowApprovalPolicy;
+  approvalCategory?: WhatsAppApprovalCategory; // Categoria dos templates enviados para aprovação
+}
+
+// ============================================
+// Histórico de versões
+// ============================================
+
+export type FlowVersionReason = 'create' | 'update' | 'publish' | 'rollback';
+
+export interface FlowVersion {
+  flow_id: string;
+  version: number;
+  reason: FlowVersionReason;
+  name: string;
+  nodes: FlowNode[];
+  start_node_id: string;
+  default_locale?: string; // Ausente em versões anteriores ao multi-idioma
+  definition?: TwilioFlowDefinition; // Ausente quando o build falhou no momento do snapshot
+  twilio_flow_sid?: string;
+  created_at: Date;
+}
+
+export interface FlowEntryChange {
+  id: string;
+  fields: string[];
+}
+
+export interface FlowEntriesDiff {
+  added: string[];
+  removed: string[];
+  changed: FlowEntryChange[];
+}
+
+export interface FlowSnapshotDiff {
+  name?: { from: string; to: string };
+  startNodeId?: { from: string; to: string };
+  defaultLocale?: { from: string; to: string };
+  nodes: FlowEntriesDiff;
+}
+
+export interface FlowVersionDiff extends FlowSnapshotDiff {
+  from: number;
+  to: number;
+  widgets?: FlowEntriesDiff; // Só quando as duas versões têm definition
+}
+
+// Rascunho comparado com o snapshot publicado (from = publicado, to = rascunho)
+export interface FlowPendingChanges extends FlowSnapshotDiff {
+  hasChanges: boolean;
+  publishedAt?: Date;
+}
+
+// ============================================
+// Linter offline
+// ============================================
+
+export type FlowLintSeverity = 'error' | 'warning';
+
+export interface FlowLintFinding {
+  severity: FlowLintSeverity;
+  nodeId: string;
+  code: string;
+  message: string;
+}
+
+export interface FlowLintResult {
+  valid: boolean; // Sem findings de severidade "error"
+  findings: FlowLintFinding[];
+}
+
+// ============================================
+// Simulador local
+// ============================================
+
+export interface FlowSimulationInput {
+  trigger?: string; // Mensagem que inicia a conversa (default: "oi")
+  replies: Array<string | null>; // Respostas do cliente, em ordem; null simula timeout
+  variables?: Record<string, string>;
+  httpResponses?: Record<string, { failed?: boolean; body?: unknown }>; // Por node "http"
+  now?: Date; // Instante usado pelos nodes "hours"
+  locale?: string; // Idioma do contato (default: idioma padrão do flow)
+}
+
+export interface FlowSimulationMessage {
+  from: 'bot' | 'customer';
+  nodeId: string;
+  text: string;
+  buttons?: string[];
+  media?: string[];
+}
+
+export interface FlowSimulationBranch {
+  nodeId: string;
+  type: FlowNodeType;
+  input?: string;
+  outcome: string; // Ex.: botão escolhido, regra atendida, "else", "timeout", "closed"
+  nextNodeId?: string;
+}
+
+export interface FlowSimulationTransfer {
+  nodeId: string;
+  workflowSid?: string;
+  channelSid?: string;
+  priority: number;
+  timeout: number;
+  attributes: Record<string, string>;
+}
+
+export type FlowSimulationStatus =
+  | 'completed' // Chegou a um node sem próximo
+  | 'transferred'
+  | 'closed' // Node "end"
+  | 'waiting' // Acabaram as respostas enquanto o bot esperava uma
+  | 'step_limit'; // Provável loop
+
+export interface FlowSimulationResult {
+  status: FlowSimulationStatus;
+  endedAt: string;
+  transcript: FlowSimulationMessage[];
+  branches: FlowSimulationBranch[];
+  transfer?: FlowSimulationTransfer;
+  variables: Record<string, string>;
+  unusedReplies: number;
+}
+
+// ============================================
+// Bundle de exportação/importação entre ambientes
+// ============================================
+
+export interface FlowBundle {
+  format: string; // FLOW_BUNDLE_FORMAT
+  version: number;
+  exported_at: string;
+  flow: {
+    id: string;
+    name: string;
+    description?: string;
+    startNodeId: string;
+    defaultLocale?: string;
+    nodes: FlowNode[];
+  };
+}
+
+export interface FlowBundleImportResult {
+  flow: Flow;
+  remappedFrom?: string; // ID original quando já existia um flow com o mesmo ID
+}
+
+// ============================================
+// Importação do Twilio Studio
+// ============================================
+
+export interface FlowImportIssue {
+  widget: string;
+  type: string;
+  reason: string;
+}
+
+export interface FlowImportResult {
+  flow: Flow;
+  created: boolean; // false quando o flow já estava vinculado ao SID e foi atualizado
+  unsupported: FlowImportIssue[];
+}
+
+export interface FlowRollbackResult {
+  flow: Flow;
+  restoredFrom: number;
+  publish?: FlowPublishResult;
+}
+
+// ============================================
+// Registro de Content Templates
+// ============================================
+
+export interface ContentTemplateRecord {
+  content_sid: string;
+  cache_key: string; // Entrada content-template:* do twilio_cache que aponta para o template
+  template_type: string; // quick-reply | list-picker | call-to-action | card | media | text
+  template_name: string;
+  node_id?: string;
+  flow_name?: string;
+  language?: string;
+  created_at: Date;
+}
+
+// Tipos aceitos na criação manual de Content Templates
+export type ContentTemplateType = 'text' | 'quick-reply' | 'list-picker' | 'media' | 'card';
+
+export interface ContentTemplateInput {
+  type: ContentTemplateType;
+  friendlyName: string;
+  language?: string; // Default: pt_BR
+  body: string; // Texto da mensagem (no card, o título)
+  buttons?: Array<Omit<FlowButton, 'nextNodeId'>>; // quick-reply, list-picker e card
+  mediaUrls?: string[]; // media e card (o card usa só a primeira)
+}
+
+export interface ContentTemplatePurgeResult {
+  deleted: string[];
+  failed: Array<{ contentSid: string; error: string }>;
+}
+
+// ============================================
+// Aprovação WhatsApp dos Content Templates
+// ============================================
+
+export type WhatsAppApprovalCategory = 'UTILITY' | 'MARKETING' | 'AUTHENTICATION';
+
+// Status da Content API; 'unknown' = ainda não consultado pelo serviço
+export type WhatsAppApprovalStatus =
+  | 'unknown'
+  | 'unsubmitted'
+  | 'received'
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'paused'
+  | 'disabled';
+
+export interface ContentApprovalRecord {
+  content_sid: string;
+  status: WhatsAppApprovalStatus;
+  category?: WhatsAppApprovalCategory;
+  approval_name?: string;
+  rejection_reason?: string;
+  submitted_at?: Date;
+  checked_at: Date;
+}
+
+export interface FlowTemplateApproval {
+  nodeId: string;
+  locale: string;
+  contentSid: string;
+  status: WhatsAppApprovalStatus;
+  category?: WhatsAppApprovalCategory;
+  rejectionReason?: string;
+  checkedAt?: Date;
 }
@@ -0,0 +1,152 @@
+import { types } from 'cassandra-driver';
+import { getClient } from '@/database';
+import type {
+  Flow,
+  FlowNode,
+  FlowVersion,
+  FlowVersionReason,
+  TwilioFlowDefinition,
+} from './flows.types';
+
+export class FlowVersionsRepository {
+  private get client() {
+    return getClient();
+  }
+
+  // Mais recentes primeiro (clustering por version DESC)
+  async findByFlowId(flowId: string, limit = 50): Promise<FlowVersion[]> {
+    const asInt = Number.isFinite(limit) ? Math.floor(limit) : 50;
+    const safeLimit = Math.min(Math.max(asInt, 1), 1000);
+    const query = `SELECT * FROM flow_versions WHERE flow_id = ? LIMIT ${safeLimit}`;
+    const result = await this.client.execute(query, [types.Uuid.fromString(flowId)], {
+      prepare: true,
+    });
+    return result.rows.map((row) => this.mapRowToVersion(row));
+  }
+
+  async findByVersion(flowId: string, version: number): Promise<FlowVersion | null> {
+    const query = 'SELECT * FROM flow_versions WHERE flow_id = ? AND version = ?';
+    const result = await this.client.execute(query, [types.Uuid.fromString(flowId), version], {
+      prepare: true,
+    });
+    const row = result.rows[0];
+    return row ? this.mapRowToVersion(row) : null;
+  }
+
+  /**
+   * Versões de todos os flows, paginando pelo driver. Para checagens de referência: um
+   * rollback restaura os nodes (e os templates) de qualquer versão.
+   */
+  async findAllPages(pageSize = 500): Promise<FlowVersion[]> {
+    const versions: FlowVersion[] = [];
+    let pageState: string | undefined;
+
+    do {
+      const result = await this.client.execute('SELECT * FROM flow_versions', [], {
+        prepare: true,
+        fetchSize: pageSize,
+        pageState,
+      });
+      versions.push(...result.rows.map((row) => this.mapRowToVersion(row)));
+      pageState = result.pageState;
+    } while (pageState);
+
+    return versions;
+  }
+
+  async getLatestVersion(flowId: string): Promise<number> {
+    const query = 'SELECT version FROM flow_versions WHERE flow_id = ? LIMIT 1';
+    const result = await this.client.execute(query, [types.Uuid.fromString(flowId)], {
+      prepare: true,
+    });
+    return result.rows[0]?.get('version') ?? 0;
+  }
+
+  async create(
+    flow: Flow,
+    reason: FlowVersionReason,
+    definition?: TwilioFlowDefinition,
+  ): Promise<FlowVersion> {
+    const version = (await this.getLatestVersion(flow.id)) + 1;
+    const now = new Date();
+
+    // IF NOT EXISTS evita sobrescrever uma versão criada em paralelo
+    const query = `
+      INSERT INTO flow_versions (flow_id, version, reason, name, nodes, start_node_id, default_locale, definition, twilio_flow_sid, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      IF NOT EXISTS
+    `;
+
+    const result = await this.client.execute(
+      query,
+      [
+        types.Uuid.fromString(flow.id),
+        version,
+        reason,
+        flow.name,
+        JSON.stringify(flow.nodes),
+        flow.start_node_id,
+        flow.default_locale || null,
+        definition ? JSON.stringify(definition) : null,
+        flow.twilio_flow_sid || null,
+        now,
+      ],
+      { prepare: true },
+    );
+
+    if (!result.wasApplied()) {
+      throw new Error(`Version ${version} of flow "${flow.id}" already exists`);
+    }
+
+    return {
+      flow_id: flow.id,
+      version,
+      reason,
+      name: flow.name,
+      nodes: flow.nodes,
+      start_node_id: flow.start_node_id,
+      default_locale: flow.default_locale,
+      definition,
+      twilio_flow_sid: flow.twilio_flow_sid,
+      created_at: now,
+    };
+  }
+
+  async deleteByFlowId(flowId: string): Promise<void> {
+    const query = 'DELETE FROM flow_versions WHERE flow_id = ?';
+    await this.client.execute(query, [types.Uuid.fromString(flowId)], { prepare: true });
+  }
+
+  private mapRowToVersion(row: types.Row): FlowVersion {
+    let nodes: FlowNode[] = [];
+    let definition: TwilioFlowDefinition | undefined;
+
+    try {
+      nodes = JSON.parse(row.get('nodes') || '[]');
+    } catch {
+      nodes = [];
+    }
+
+    try {
+      const definitionJson = row.get('definition');
+      definition = definitionJson ? JSON.parse(definitionJson) : undefined;
+    } catch {
+      definition = undefined;
+    }
+
+    return {
+      flow_id: row.get('flow_id')?.toString() ?? '',
+      version: row.get('version') ?? 0,
+      reason: (row.get('reason') as FlowVersionReason) ?? 'update',
+      name: row.get('name') ?? '',
+      nodes,
+      start_node_id: row.get('start_node_id') ?? '',
+      default_locale: row.get('default_locale') ?? undefined,
+      definition,
+      twilio_flow_sid: row.get('twilio_flow_sid') ?? undefined,
+      created_at: row.get('created_at') ?? new Date(),
+    };
+  }
+}
+
+export const flowVersionsRepository = new FlowVersionsRepository();
@@ -1,22 +1,68 @@
 export { flowBuilder } from './flows.builder';
-export { twilioContentClient } from './flows.content';
+export { createFlowBundle, FLOW_BUNDLE_FORMAT, FLOW_BUNDLE_VERSION } from './flows.bundle';
+export type { ContentTemplateResponse } from './flows.content';
+export { getButtonsTemplateType, twilioContentClient } from './flows.content';
+export { contentTemplatesRepository } from './flows.content.repository';
 export { flowsController } from './flows.controller';
+export { diffFlowSnapshots, diffFlowVersions, hasSnapshotChanges } from './flows.diff';
+export { flowImporter } from './flows.importer';
+export { lintFlow } from './flows.linter';
+export { DEFAULT_FLOW_LOCALE, getFlowLocales, localizeNode } from './flows.locales';
 export { flowsRepository } from './flows.repository';
+export { schedulesController } from './flows.schedules.controller';
+export { schedulesRepository } from './flows.schedules.repository';
+export { schedulesService } from './flows.schedules.service';
 export { flowsService } from './flows.service';
+export { flowSimulator } from './flows.simulator';
+export type { FlowTemplate, FlowTemplateParameter } from './flows.templates';
+export { FLOW_TEMPLATES, getFlowTemplate } from './flows.templates';
 export { twilioStudioClient } from './flows.twilio';
-
 export type {
+  BusinessHoursSchedule,
+  BusinessHoursScheduleInput,
+  BusinessHoursWindow,
+  ConditionConfig,
+  ConditionOperator,
+  ConditionRule,
+  ContentTemplatePurgeResult,
+  ContentTemplateRecord,
   Flow,
+  FlowBuildContext,
+  FlowBundle,
+  FlowBundleImportResult,
   FlowButton,
+  FlowButtonKind,
+  FlowImportIssue,
+  FlowImportResult,
   FlowInput,
+  FlowLintFinding,
+  FlowLintResult,
+  FlowLintSeverity,
   FlowNode,
+  FlowNodeTranslation,
   FlowNodeType,
+  FlowPendingChanges,
   FlowPreview,
+  FlowPublishedSnapshot,
   FlowPublishResult,
+  FlowRollbackResult,
+  FlowSimulationInput,
+  FlowSimulationResult,
+  FlowSnapshotDiff,
   FlowStatus,
   FlowUpdateInput,
+  FlowVersion,
+  FlowVersionDiff,
+  FlowVersionReason,
+  HoursConfig,
+  HttpRequestConfig,
+  MediaConfig,
   Position,
+  QuestionValidation,
+  QuestionValidatorType,
+  SubflowConfig,
   TransferConfig,
   TwilioFlowDefinition,
   TwilioWidget,
 } from './flows.types';
+export { flowVersionsRepository } from './flows.versions.repository';
@@ -14,6 +14,7 @@ export interface FlexTaskState {
   task_attributes?: string;
   greeting_sent_at?: Date;
   ping_sent_at?: Date;
+  reminders_sent?: number;
   inactive_sent_at?: Date;
   last_customer_activity_at?: Date;
   created_at: Date;
@@ -115,22 +116,22 @@ export class FlexTasksRepository {
     const now = new Date();
     const query = `
       UPDATE flex_tasks
-      SET greeting_sent_at = ?, ping_sent_at = ?, inactive_sent_at = ?, updated_at = ?
+      SET greeting_sent_at = ?, ping_sent_at = ?, reminders_sent = ?, inactive_sent_at = ?, updated_at = ?
       WHERE task_sid = ?
     `;
-    await this.client.execute(query, [at, null, null, now, taskSid], {
+    await this.client.execute(query, [at, null, 0, null, now, taskSid], {
       prepare: true,
     });
   }
 
-  async markPingSent(taskSid: string, at: Date): Promise<void> {
+  async markReminderSent(taskSid: string, at: Date, remindersSent: number): Promise<void> {
     const now = new Date();
     const query = `
       UPDATE flex_tasks
-      SET ping_sent_at = ?, updated_at = ?
+      SET ping_sent_at = ?, reminders_sent = ?, updated_at = ?
       WHERE task_sid = ?
     `;
-    await this.client.execute(query, [at, now, taskSid], { prepare: true });
+    await this.client.execute(query, [at, remindersSent, now, taskSid], { prepare: true });
   }
 
   async markInactiveSent(taskSid: string, at: Date): Promise<void> {
@@ -158,6 +159,7 @@ export class FlexTasksRepository {
     const pingSentAt = row.get('ping_sent_at') as Date | null;
     const inactiveSentAt = row.get('inactive_sent_at') as Date | null;
     const lastCustomerActivityAt = row.get('last_customer_activity_at') as Date | null;
+    const remindersSent = row.get('reminders_sent') as number | null;
 
     return {
       task_sid: (row.get('task_sid') as string) ?? '',
@@ -172,6 +174,7 @@ export class FlexTasksRepository {
       task_attributes: row.get('task_attributes') ?? undefined,
       greeting_sent_at: greetingSentAt ?? undefined,
       ping_sent_at: pingSentAt ?? undefined,
+      reminders_sent: remindersSent ?? (pingSentAt ? 1 : 0),
       inactive_sent_at: inactiveSentAt ?? undefined,
       last_customer_activity_at: lastCustomerActivityAt ?? undefined,
       created_at: row.get('created_at') ?? new Date(),
@@ -1,3 +1,6 @@
 export { tasksController } from './tasks.controller';
+export { taskPoliciesController } from './tasks.policies.controller';
+export { taskInactivityPoliciesRepository } from './tasks.policies.repository';
+export { taskInactivityPoliciesService } from './tasks.policies.service';
 export { tasksRepository } from './tasks.repository';
 export { tasksService } from './tasks.service';
@@ -2,10 +2,20 @@ export function operatorHandoffMessage(customerName: string, operatorName: strin
   return `Ol\u00e1, ${customerName}. Meu nome \u00e9 ${operatorName} e irei dar continuidade ao seu atendimento.\u{1F609}\u2764`;
 }
 
-export function stillInChatMessage(customerName: string): string {
-  return `Ol\u00e1, ${customerName}. Voc\u00ea ainda est\u00e1 no chat?`;
-}
+// Mensagens da política de inatividade padrão (sem política cadastrada para o canal/fila)
+export const DEFAULT_REMINDER_MESSAGE =
+  'Ol\u00e1, {{customerName}}. Voc\u00ea ainda est\u00e1 no chat?';
+
+export const DEFAULT_INACTIVITY_CLOSE_MESSAGE =
+  'Ol\u00e1, {{customerName}}. Identificamos que voc\u00ea est\u00e1 inativo e seu chat ser\u00e1 encerrado por inatividade.';
+
+const INACTIVITY_MESSAGE_PLACEHOLDER = /\{\{\s*(customerName|operatorName)\s*\}\}/g;
 
-export function inactivityCloseMessage(customerName: string): string {
-  return `Ol\u00e1, ${customerName}. Identificamos que voc\u00ea est\u00e1 inativo e seu chat ser\u00e1 encerrado por inatividade.`;
+export function renderInactivityMessage(
+  template: string,
+  values: { customerName: string; operatorName?: string },
+): string {
+  return template.replace(INACTIVITY_MESSAGE_PLACEHOLDER, (_match, key: string) =>
+    key === 'customerName' ? values.customerName : (values.operatorName ?? ''),
+  );
 }
@@ -0,0 +1,149 @@
+import { Elysia, t } from 'elysia';
+import { taskInactivityPoliciesService } from './tasks.policies.service';
+
+// Lembrete: atraso em segundos a partir do estágio anterior (ou da saudação)
+const StageSchema = t.Object({
+  delaySeconds: t.Integer({ minimum: 1 }),
+  message: t.String({ minLength: 1 }),
+});
+
+// closeConversation só vale para tasks do Flex; completeTask vale também para as internas
+const CloseActionSchema = t.Object({
+  delaySeconds: t.Integer({ minimum: 1 }),
+  message: t.String({ minLength: 1 }),
+  closeConversation: t.Optional(t.Boolean()),
+  completeTask: t.Optional(t.Boolean()),
+});
+
+const CreatePolicySchema = t.Object({
+  name: t.String({ minLength: 1 }),
+  channelType: t.Optional(t.String()),
+  queue: t.Optional(t.String()),
+  isDefault: t.Optional(t.Boolean()),
+  stages: t.Array(StageSchema),
+  close: CloseActionSchema,
+});
+
+const UpdatePolicySchema = t.Object({
+  name: t.Optional(t.String({ minLength: 1 })),
+  channelType: t.Optional(t.String()),
+  queue: t.Optional(t.String()),
+  isDefault: t.Optional(t.Boolean()),
+  stages: t.Optional(t.Array(StageSchema)),
+  close: t.Optional(CloseActionSchema),
+});
+
+export const taskPoliciesController = new Elysia({ prefix: '/tasks/policies' })
+  // Listar políticas de inatividade
+  .get(
+    '/',
+    async ({ query }) => {
+      const policies = await taskInactivityPoliciesService.getAll(query.limit);
+      return { data: policies };
+    },
+    {
+      query: t.Object({
+        limit: t.Optional(t.Numeric({ default: 100 })),
+      }),
+      detail: {
+        summary: 'List inactivity policies',
+        tags: ['Tasks'],
+      },
+    },
+  )
+
+  // Obter política por ID
+  .get(
+    '/:id',
+    async ({ params, set }) => {
+      const policy = await taskInactivityPoliciesService.getById(params.id);
+      if (!policy) {
+        set.status = 404;
+        return { message: 'Policy not found' };
+      }
+      return { data: policy };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Get inactivity policy by ID',
+        tags: ['Tasks'],
+      },
+    },
+  )
+
+  // Criar política
+  .post(
+    '/',
+    async ({ body, set }) => {
+      try {
+        const policy = await taskInactivityPoliciesService.create(body);
+        set.status = 201;
+        return { data: policy };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to create policy';
+        return { message };
+      }
+    },
+    {
+      body: CreatePolicySchema,
+      detail: {
+        summary: 'Create an inactivity policy (reminder stages + close action)',
+        tags: ['Tasks'],
+      },
+    },
+  )
+
+  // Atualizar política (vale para tasks agendadas a partir de então)
+  .put(
+    '/:id',
+    async ({ params, body, set }) => {
+      try {
+        const policy = await taskInactivityPoliciesService.update(params.id, body);
+        if (!policy) {
+          set.status = 404;
+          return { message: 'Policy not found' };
+        }
+        return { data: policy };
+      } catch (err) {
+        set.status = 400;
+        const message = err instanceof Error ? err.message : 'Failed to update policy';
+        return { message };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: UpdatePolicySchema,
+      detail: {
+        summary: 'Update inactivity policy by ID',
+        tags: ['Tasks'],
+      },
+    },
+  )
+
+  // Deletar política
+  .delete(
+    '/:id',
+    async ({ params, set }) => {
+      const deleted = await taskInactivityPoliciesService.delete(params.id);
+      if (!deleted) {
+        set.status = 404;
+        return { message: 'Policy not found' };
+      }
+      return { message: 'Policy deleted successfully' };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Delete inactivity policy by ID',
+        tags: ['Tasks'],
+      },
+    },
+  );
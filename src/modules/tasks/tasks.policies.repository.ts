@@ -0,0 +1,159 @@
+import { types } from 'cassandra-driver';
+import { getClient } from '@/database';
+import type {
+  TaskInactivityCloseAction,
+  TaskInactivityPolicy,
+  TaskInactivityPolicyInput,
+  TaskInactivityPolicyUpdateInput,
+  TaskInactivityStage,
+} from '@/shared/types';
+
+export class TaskInactivityPoliciesRepository {
+  private get client() {
+    return getClient();
+  }
+
+  async findAll(limit = 100): Promise<TaskInactivityPolicy[]> {
+    const asInt = Number.isFinite(limit) ? Math.floor(limit) : 100;
+    const safeLimit = Math.min(Math.max(asInt, 1), 1000);
+    const query = `SELECT * FROM task_inactivity_policies LIMIT ${safeLimit}`;
+    const result = await this.client.execute(query);
+    return result.rows.map((row) => this.mapRowToPolicy(row));
+  }
+
+  async findById(id: string): Promise<TaskInactivityPolicy | null> {
+    const query = 'SELECT * FROM task_inactivity_policies WHERE id = ?';
+    const result = await this.client.execute(query, [types.Uuid.fromString(id)], { prepare: true });
+    const row = result.rows[0];
+    return row ? this.mapRowToPolicy(row) : null;
+  }
+
+  async create(input: TaskInactivityPolicyInput): Promise<TaskInactivityPolicy> {
+    const id = types.Uuid.random();
+    const now = new Date();
+    const isDefault = input.isDefault ?? false;
+
+    const query = `
+      INSERT INTO task_inactivity_policies (id, name, channel_type, queue, is_default, stages, close_action, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.client.execute(
+      query,
+      [
+        id,
+        input.name,
+        input.channelType || null,
+        input.queue || null,
+        isDefault,
+        JSON.stringify(input.stages),
+        JSON.stringify(input.close),
+        now,
+        now,
+      ],
+      { prepare: true },
+    );
+
+    return {
+      id: id.toString(),
+      name: input.name,
+      channel_type: input.channelType || undefined,
+      queue: input.queue || undefined,
+      is_default: isDefault,
+      stages: input.stages,
+      close: input.close,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  async update(
+    id: string,
+    input: TaskInactivityPolicyUpdateInput,
+  ): Promise<TaskInactivityPolicy | null> {
+    const existing = await this.findById(id);
+    if (!existing) return null;
+
+    const updates: string[] = ['updated_at = ?'];
+    const values: unknown[] = [new Date()];
+
+    if (input.name !== undefined) {
+      updates.push('name = ?');
+      values.push(input.name);
+    }
+
+    // String vazia remove o filtro
+    if (input.channelType !== undefined) {
+      updates.push('channel_type = ?');
+      values.push(input.channelType || null);
+    }
+
+    if (input.queue !== undefined) {
+      updates.push('queue = ?');
+      values.push(input.queue || null);
+    }
+
+    if (input.isDefault !== undefined) {
+      updates.push('is_default = ?');
+      values.push(input.isDefault);
+    }
+
+    if (input.stages !== undefined) {
+      updates.push('stages = ?');
+      values.push(JSON.stringify(input.stages));
+    }
+
+    if (input.close !== undefined) {
+      updates.push('close_action = ?');
+      values.push(JSON.stringify(input.close));
+    }
+
+    values.push(types.Uuid.fromString(id));
+
+    const query = `UPDATE task_inactivity_policies SET ${updates.join(', ')} WHERE id = ?`;
+    await this.client.execute(query, values, { prepare: true });
+
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.findById(id);
+    if (!existing) return false;
+
+    const query = 'DELETE FROM task_inactivity_policies WHERE id = ?';
+    await this.client.execute(query, [types.Uuid.fromString(id)], { prepare: true });
+
+    return true;
+  }
+
+  private mapRowToPolicy(row: types.Row): TaskInactivityPolicy {
+    let stages: TaskInactivityStage[] = [];
+    let close: TaskInactivityCloseAction = { delaySeconds: 0, message: '' };
+
+    try {
+      stages = JSON.parse(row.get('stages') || '[]');
+    } catch {
+      stages = [];
+    }
+
+    try {
+      close = JSON.parse(row.get('close_action') || '{}');
+    } catch {
+      close = { delaySeconds: 0, message: '' };
+    }
+
+    return {
+      id: row.get('id')?.toString() ?? '',
+      name: row.get('name') ?? '',
+      channel_type: row.get('channel_type') ?? undefined,
+      queue: row.get('queue') ?? undefined,
+      is_default: row.get('is_default') ?? false,
+      stages,
+      close,
+      created_at: row.get('created_at') ?? new Date(),
+      updated_at: row.get('updated_at') ?? new Date(),
+    };
+  }
+}
+
+export const taskInactivityPoliciesRepository = new TaskInactivityPoliciesRepository();
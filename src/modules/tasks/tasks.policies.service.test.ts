@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, spyOn } from 'bun:test';
+import type { TaskInactivityPolicy } from '@/shared/types';
+import { taskInactivityPoliciesRepository } from './tasks.policies.repository';
+import {
+  DEFAULT_TASK_INACTIVITY_PLAN,
+  TaskInactivityPoliciesService,
+} from './tasks.policies.service';
+
+function createPolicy(
+  name: string,
+  target: Partial<Pick<TaskInactivityPolicy, 'channel_type' | 'queue' | 'is_default'>>,
+): TaskInactivityPolicy {
+  return {
+    id: name,
+    name,
+    is_default: false,
+    stages: [{ delaySeconds: 60, message: name }],
+    close: { delaySeconds: 60, message: name },
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...target,
+  };
+}
+
+const policies = [
+  createPolicy('default', { is_default: true }),
+  createPolicy('whatsapp', { channel_type: 'whatsapp' }),
+  createPolicy('vendas', { queue: 'Vendas' }),
+  createPolicy('vendas-whatsapp', { queue: 'vendas', channel_type: 'WhatsApp' }),
+];
+
+describe('TaskInactivityPoliciesService.resolve', () => {
+  const service = new TaskInactivityPoliciesService();
+  const findAll = spyOn(taskInactivityPoliciesRepository, 'findAll');
+
+  afterEach(() => {
+    findAll.mockReset();
+  });
+
+  it('prefers queue + channel, then queue, then channel, then the default policy', async () => {
+    findAll.mockResolvedValue(policies);
+
+    const resolveName = async (channelType: string, queues: string[] = []) =>
+      (await service.resolve({ channelType, queues })).name;
+
+    expect(await resolveName('whatsapp', ['WQ1', 'Vendas'])).toBe('vendas-whatsapp');
+    expect(await resolveName('sms', ['vendas'])).toBe('vendas');
+    expect(await resolveName('whatsapp', ['suporte'])).toBe('whatsapp');
+    expect(await resolveName('sms')).toBe('default');
+  });
+
+  it('falls back to the built-in plan without a default policy', async () => {
+    findAll.mockResolvedValue(policies.filter((policy) => !policy.is_default));
+
+    expect(await service.resolve({ channelType: 'sms' })).toBe(DEFAULT_TASK_INACTIVITY_PLAN);
+  });
+
+  it('falls back to the built-in plan when policies cannot be loaded', async () => {
+    findAll.mockRejectedValue(new Error('Database client not initialized'));
+
+    expect(await service.resolve({ channelType: 'whatsapp' })).toBe(DEFAULT_TASK_INACTIVITY_PLAN);
+  });
+});
@@ -0,0 +1,167 @@
+import type {
+  TaskInactivityCloseAction,
+  TaskInactivityPlan,
+  TaskInactivityPolicy,
+  TaskInactivityPolicyInput,
+  TaskInactivityPolicyUpdateInput,
+  TaskInactivityStage,
+} from '@/shared/types';
+import { createLogger } from '@/shared/utils/logger';
+import { DEFAULT_INACTIVITY_CLOSE_MESSAGE, DEFAULT_REMINDER_MESSAGE } from './tasks.messages';
+import { taskInactivityPoliciesRepository } from './tasks.policies.repository';
+
+const logger = createLogger('TaskInactivityPolicies');
+
+// Usada quando nenhuma política cadastrada atende a task (nem a marcada como padrão)
+export const DEFAULT_TASK_INACTIVITY_PLAN: TaskInactivityPlan = {
+  name: 'Default',
+  stages: [{ delaySeconds: 5 * 60, message: DEFAULT_REMINDER_MESSAGE }],
+  close: { delaySeconds: 10 * 60, message: DEFAULT_INACTIVITY_CLOSE_MESSAGE },
+};
+
+export type TaskInactivityTarget = {
+  channelType?: string;
+  // SID e/ou nome da fila do TaskRouter
+  queues?: string[];
+};
+
+function normalize(value?: string): string {
+  return value?.trim().toLowerCase() ?? '';
+}
+
+export class TaskInactivityPoliciesService {
+  async getAll(limit?: number): Promise<TaskInactivityPolicy[]> {
+    return taskInactivityPoliciesRepository.findAll(limit);
+  }
+
+  async getById(id: string): Promise<TaskInactivityPolicy | null> {
+    return taskInactivityPoliciesRepository.findById(id);
+  }
+
+  async create(input: TaskInactivityPolicyInput): Promise<TaskInactivityPolicy> {
+    this.validatePolicy(input);
+    await this.assertNoConflict(input);
+    return taskInactivityPoliciesRepository.create(input);
+  }
+
+  async update(
+    id: string,
+    input: TaskInactivityPolicyUpdateInput,
+  ): Promise<TaskInactivityPolicy | null> {
+    const existing = await taskInactivityPoliciesRepository.findById(id);
+    if (!existing) return null;
+
+    const merged: TaskInactivityPolicyInput = {
+      name: input.name ?? existing.name,
+      channelType: input.channelType ?? existing.channel_type,
+      queue: input.queue ?? existing.queue,
+      isDefault: input.isDefault ?? existing.is_default,
+      stages: input.stages ?? existing.stages,
+      close: input.close ?? existing.close,
+    };
+
+    this.validatePolicy(merged);
+    await this.assertNoConflict(merged, id);
+    return taskInactivityPoliciesRepository.update(id, input);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return taskInactivityPoliciesRepository.delete(id);
+  }
+
+  /**
+   * Política aplicada a uma task: a mais específica vence (fila + canal, fila, canal), depois a
+   * marcada como padrão e, sem nenhuma, a política embutida.
+   */
+  async resolve(target: TaskInactivityTarget): Promise<TaskInactivityPlan> {
+    let policies: TaskInactivityPolicy[];
+    try {
+      policies = await taskInactivityPoliciesRepository.findAll(1000);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to load inactivity policies, using default: ${message}`);
+      return DEFAULT_TASK_INACTIVITY_PLAN;
+    }
+
+    const channelType = normalize(target.channelType);
+    const queues = new Set((target.queues ?? []).map(normalize).filter(Boolean));
+
+    let best: TaskInactivityPolicy | null = null;
+    let bestScore = 0;
+
+    for (const policy of policies) {
+      const policyChannel = normalize(policy.channel_type);
+      const policyQueue = normalize(policy.queue);
+      if (!policyChannel && !policyQueue) continue;
+      if (policyChannel && policyChannel !== channelType) continue;
+      if (policyQueue && !queues.has(policyQueue)) continue;
+
+      const score = (policyQueue ? 2 : 0) + (policyChannel ? 1 : 0);
+      if (score > bestScore) {
+        best = policy;
+        bestScore = score;
+      }
+    }
+
+    return best ?? policies.find((policy) => policy.is_default) ?? DEFAULT_TASK_INACTIVITY_PLAN;
+  }
+
+  private async assertNoConflict(input: TaskInactivityPolicyInput, id?: string): Promise<void> {
+    const policies = await taskInactivityPoliciesRepository.findAll(1000);
+    const others = policies.filter((policy) => policy.id !== id);
+
+    if (input.isDefault) {
+      const current = others.find((policy) => policy.is_default);
+      if (current) {
+        throw new Error(`Policy "${current.name}" (${current.id}) is already the default`);
+      }
+      return;
+    }
+
+    const duplicate = others.find(
+      (policy) =>
+        !policy.is_default &&
+        normalize(policy.channel_type) === normalize(input.channelType) &&
+        normalize(policy.queue) === normalize(input.queue),
+    );
+    if (duplicate) {
+      throw new Error(
+        `Policy "${duplicate.name}" (${duplicate.id}) already targets this channel type and queue`,
+      );
+    }
+  }
+
+  private validatePolicy(input: TaskInactivityPolicyInput): void {
+    if (!input.name || input.name.trim().length === 0) {
+      throw new Error('Policy name is required');
+    }
+
+    const hasTarget = Boolean(input.channelType?.trim() || input.queue?.trim());
+    if (input.isDefault && hasTarget) {
+      throw new Error('Default policy cannot target a channel type or queue');
+    }
+    if (!input.isDefault && !hasTarget) {
+      throw new Error('Policy must target a channel type or queue, or be the default');
+    }
+
+    input.stages.forEach((stage, index) => {
+      this.validateStage(stage, `Stage ${index + 1}`);
+    });
+    this.validateStage(input.close, 'Close action');
+  }
+
+  private validateStage(
+    stage: TaskInactivityStage | TaskInactivityCloseAction,
+    label: string,
+  ): void {
+    if (!Number.isInteger(stage.delaySeconds) || stage.delaySeconds < 1) {
+      throw new Error(`${label}: delaySeconds must be a positive integer`);
+    }
+
+    if (!stage.message || stage.message.trim().length === 0) {
+      throw new Error(`${label}: message is required`);
+    }
+  }
+}
+
+export const taskInactivityPoliciesService = new TaskInactivityPoliciesService();
@@ -113,13 +113,15 @@ export class TasksRepository {
 
     const query = `
       UPDATE tasks
-      SET greeting_sent_at = ?, ping_sent_at = ?, inactive_sent_at = ?, updated_at = ?
+      SET greeting_sent_at = ?, ping_sent_at = ?, reminders_sent = ?, inactive_sent_at = ?, updated_at = ?
       WHERE id = ?
     `;
 
-    await this.client.execute(query, [greetingSentAt, null, null, now, types.Uuid.fromString(id)], {
-      prepare: true,
-    });
+    await this.client.execute(
+      query,
+      [greetingSentAt, null, 0, null, now, types.Uuid.fromString(id)],
+      { prepare: true },
+    );
 
     return this.findById(id);
   }
@@ -143,7 +145,7 @@ export class TasksRepository {
     return this.findById(id);
   }
 
-  async markPingSent(id: string, at: Date): Promise<Task | null> {
+  async markReminderSent(id: string, at: Date, remindersSent: number): Promise<Task | null> {
     const existing = await this.findById(id);
     if (!existing) return null;
 
@@ -151,11 +153,24 @@ export class TasksRepository {
 
     const query = `
       UPDATE tasks
-      SET ping_sent_at = ?, updated_at = ?
+      SET ping_sent_at = ?, reminders_sent = ?, updated_at = ?
       WHERE id = ?
     `;
 
-    await this.client.execute(query, [at, now, types.Uuid.fromString(id)], {
+    await this.client.execute(query, [at, remindersSent, now, types.Uuid.fromString(id)], {
+      prepare: true,
+    });
+
+    return this.findById(id);
+  }
+
+  // Mensagem de inatividade enviada sem encerrar a task (close.completeTask = false)
+  async markInactiveSent(id: string, at: Date): Promise<Task | null> {
+    const existing = await this.findById(id);
+    if (!existing) return null;
+
+    const query = 'UPDATE tasks SET inactive_sent_at = ?, updated_at = ? WHERE id = ?';
+    await this.client.execute(query, [at, new Date(), types.Uuid.fromString(id)], {
       prepare: true,
     });
 
@@ -190,6 +205,7 @@ export class TasksRepository {
     const inactiveSentAt = row.get('inactive_sent_at') as Date | null;
     const lastCustomerActivityAt = row.get('last_customer_activity_at') as Date | null;
     const closedAt = row.get('closed_at') as Date | null;
+    const remindersSent = row.get('reminders_sent') as number | null;
 
     return {
       id: row.get('id')?.toString() ?? '',
@@ -205,6 +221,8 @@ export class TasksRepository {
       ping_sent_at: pingSentAt ?? undefined,
       inactive_sent_at: inactiveSentAt ?? undefined,
       last_customer_activity_at: lastCustomerActivityAt ?? undefined,
+      // Tasks anteriores às políticas só registravam o ping (um único lembrete)
+      reminders_sent: remindersSent ?? (pingSentAt ? 1 : 0),
       closed_at: closedAt ?? undefined,
       close_reason: row.get('close_reason') ?? undefined,
     };
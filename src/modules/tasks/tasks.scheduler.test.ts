@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import type { TaskInactivityPlan } from '@/shared/types';
+import { TaskInactivityScheduler } from './tasks.scheduler';
+
+const plan: TaskInactivityPlan = {
+  name: 'Teste',
+  stages: [
+    { delaySeconds: 60, message: 'Lembrete 1' },
+    { delaySeconds: 120, message: 'Lembrete 2' },
+  ],
+  close: { delaySeconds: 300, message: 'Encerrado' },
+};
+
+describe('TaskInactivityScheduler', () => {
+  let scheduled: Array<{ callback: () => void; delay: number }>;
+  let setTimeoutSpy: ReturnType<typeof spyOn<typeof globalThis, 'setTimeout'>>;
+  let clearTimeoutSpy: ReturnType<typeof spyOn<typeof globalThis, 'clearTimeout'>>;
+
+  // Timers capturados em vez de executados: cada teste dispara os callbacks que precisa
+  beforeEach(() => {
+    scheduled = [];
+    setTimeoutSpy = spyOn(globalThis, 'setTimeout').mockImplementation(((
+      callback: () => void,
+      delay?: number,
+    ) => {
+      scheduled.push({ callback, delay: delay ?? 0 });
+      return scheduled.length as unknown as ReturnType<typeof setTimeout>;
+    }) as unknown as typeof setTimeout);
+    clearTimeoutSpy = spyOn(globalThis, 'clearTimeout').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setTimeoutSpy.mockRestore();
+    clearTimeoutSpy.mockRestore();
+  });
+
+  function schedule(greetingSentAt: Date, remindersSent = 0) {
+    const reminders: number[] = [];
+    let inactive = 0;
+    const scheduler = new TaskInactivityScheduler();
+
+    scheduler.schedule(
+      'task-1',
+      greetingSentAt,
+      plan,
+      {
+        onReminder: (stageIndex) => {
+          reminders.push(stageIndex);
+        },
+        onInactive: () => {
+          inactive++;
+        },
+      },
+      remindersSent,
+    );
+
+    for (const timer of scheduled) timer.callback();
+    return { scheduler, reminders, inactive };
+  }
+
+  it('accumulates stage delays from the greeting', () => {
+    const { reminders, inactive } = schedule(new Date());
+
+    expect(scheduled.map((timer) => Math.round(timer.delay / 1_000))).toEqual([60, 180, 480]);
+    expect(reminders).toEqual([0, 1]);
+    expect(inactive).toBe(1);
+  });
+
+  it('skips reminders already sent and keeps the remaining deadlines', () => {
+    const { reminders } = schedule(new Date(Date.now() - 90_000), 1);
+
+    expect(reminders).toEqual([1]);
+    expect(scheduled.map((timer) => Math.round(timer.delay / 1_000))).toEqual([90, 390]);
+  });
+
+  it('fires overdue stages immediately after a restart', () => {
+    schedule(new Date(Date.now() - 10 * 60_000));
+
+    expect(scheduled.map((timer) => timer.delay)).toEqual([0, 0, 0]);
+  });
+
+  it('tracks and cancels the timers of a task', () => {
+    const { scheduler } = schedule(new Date());
+
+    expect(scheduler.has('task-1')).toBe(true);
+    scheduler.cancel('task-1');
+    expect(scheduler.has('task-1')).toBe(false);
+    expect(clearTimeoutSpy).toHaveBeenCalledTimes(3);
+  });
+});
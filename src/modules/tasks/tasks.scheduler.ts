@@ -1,47 +1,63 @@
-type TaskTimers = {
-  pingTimeout: ReturnType<typeof setTimeout>;
-  inactiveTimeout: ReturnType<typeof setTimeout>;
-};
+import type { TaskInactivityPlan } from '@/shared/types';
 
 export class TaskInactivityScheduler {
-  private timers = new Map<string, TaskTimers>();
+  private timers = new Map<string, Array<ReturnType<typeof setTimeout>>>();
 
   has(taskId: string): boolean {
     return this.timers.has(taskId);
   }
 
+  /**
+   * Agenda os lembretes e o encerramento da política a partir da saudação. Os atrasos são
+   * acumulados (cada estágio conta a partir do anterior) e os lembretes já enviados são pulados.
+   */
   schedule(
     taskId: string,
     greetingSentAt: Date,
+    plan: TaskInactivityPlan,
     callbacks: {
-      onPing: () => void | Promise<void>;
+      onReminder: (stageIndex: number) => void | Promise<void>;
       onInactive: () => void | Promise<void>;
     },
+    remindersSent = 0,
   ): void {
     this.cancel(taskId);
 
     const now = Date.now();
-    const base = greetingSentAt.getTime();
+    let at = greetingSentAt.getTime();
+    const timeouts: Array<ReturnType<typeof setTimeout>> = [];
 
-    const msUntilPing = Math.max(0, base + 5_000 - now);
-    const msUntilInactive = Math.max(0, base + 30_000 - now);
+    plan.stages.forEach((stage, stageIndex) => {
+      at += stage.delaySeconds * 1_000;
+      if (stageIndex < remindersSent) return;
 
-    const pingTimeout = setTimeout(() => {
-      void callbacks.onPing();
-    }, msUntilPing);
+      timeouts.push(
+        setTimeout(
+          () => {
+            void callbacks.onReminder(stageIndex);
+          },
+          Math.max(0, at - now),
+        ),
+      );
+    });
 
-    const inactiveTimeout = setTimeout(() => {
-      void callbacks.onInactive();
-    }, msUntilInactive);
+    at += plan.close.delaySeconds * 1_000;
+    timeouts.push(
+      setTimeout(
+        () => {
+          void callbacks.onInactive();
+        },
+        Math.max(0, at - now),
+      ),
+    );
 
-    this.timers.set(taskId, { pingTimeout, inactiveTimeout });
+    this.timers.set(taskId, timeouts);
   }
 
   cancel(taskId: string): void {
     const existing = this.timers.get(taskId);
     if (!existing) return;
-    clearTimeout(existing.pingTimeout);
-    clearTimeout(existing.inactiveTimeout);
+    for (const timeout of existing) clearTimeout(timeout);
     this.timers.delete(taskId);
   }
 }
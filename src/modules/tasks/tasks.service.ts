@@ -1,13 +1,10 @@
 import Twilio from 'twilio';
 import { sendSMS } from '@/config/twilio';
-import type { CreateTaskInput, Task, TaskStatus } from '@/shared/types';
+import type { CreateTaskInput, Task, TaskInactivityPlan, TaskStatus } from '@/shared/types';
 import { createLogger } from '@/shared/utils/logger';
 import { flexTasksRepository } from './flex.tasks.repository';
-import {
-  inactivityCloseMessage,
-  operatorHandoffMessage,
-  stillInChatMessage,
-} from './tasks.messages';
+import { operatorHandoffMessage, renderInactivityMessage } from './tasks.messages';
+import { type TaskInactivityTarget, taskInactivityPoliciesService } from './tasks.policies.service';
 import { tasksRepository } from './tasks.repository';
 import { taskInactivityScheduler } from './tasks.scheduler';
 
@@ -94,7 +91,7 @@ export class TasksService {
           continue;
         }
 
-        this.scheduleInternalInactivityTimers(task);
+        await this.scheduleInternalInactivityTimers(task);
         continue;
       }
 
@@ -112,7 +109,7 @@ export class TasksService {
       const updated = await tasksRepository.setGreetingSent(task.id, greetingSentAt);
       if (!updated) continue;
 
-      this.scheduleInternalInactivityTimers(updated);
+      await this.scheduleInternalInactivityTimers(updated);
     }
   }
 
@@ -150,7 +147,7 @@ export class TasksService {
       throw new Error('Task not found');
     }
 
-    this.scheduleInternalInactivityTimers(updated);
+    await this.scheduleInternalInactivityTimers(updated);
     return updated;
   }
 
@@ -168,7 +165,7 @@ export class TasksService {
       throw new Error('Task not found');
     }
 
-    this.scheduleInternalInactivityTimers(updated);
+    await this.scheduleInternalInactivityTimers(updated);
     return updated;
   }
 
@@ -193,38 +190,66 @@ export class TasksService {
     taskInactivityScheduler.cancel(latest.id);
   }
 
-  private scheduleInternalInactivityTimers(task: Task): void {
+  private async scheduleInternalInactivityTimers(task: Task): Promise<void> {
     const greetingSentAt = task.greeting_sent_at;
     if (!greetingSentAt) return;
     if (taskInactivityScheduler.has(task.id)) return;
 
-    taskInactivityScheduler.schedule(task.id, greetingSentAt, {
-      onPing: async () => this.sendInternalPingIfInactive(task.id),
-      onInactive: async () => this.sendInternalInactiveAndClose(task.id),
-    });
+    // Tasks internas são atendidas por SMS e não passam por filas do TaskRouter
+    const plan = await taskInactivityPoliciesService.resolve({ channelType: 'sms' });
+
+    taskInactivityScheduler.schedule(
+      task.id,
+      greetingSentAt,
+      plan,
+      {
+        onReminder: async (stageIndex) =>
+          this.sendInternalReminderIfInactive(task.id, plan, stageIndex),
+        onInactive: async () => this.sendInternalInactiveAndClose(task.id, plan),
+      },
+      task.reminders_sent,
+    );
   }
 
-  private async sendInternalPingIfInactive(taskId: string): Promise<void> {
+  private async sendInternalReminderIfInactive(
+    taskId: string,
+    plan: TaskInactivityPlan,
+    stageIndex: number,
+  ): Promise<void> {
+    const stage = plan.stages[stageIndex];
+    if (!stage) return;
+
     const task = await tasksRepository.findById(taskId);
     if (!task) return;
 
     if (task.status !== 'assigned') return;
     if (!task.greeting_sent_at) return;
-    if (task.ping_sent_at) return;
+    // Só evita reenvio: um estágio que falhou (ou se perdeu num restart) não bloqueia os
+    // seguintes; o contador avança para o último estágio enviado
+    if ((task.reminders_sent ?? 0) > stageIndex) return;
 
     const lastActivity = task.last_customer_activity_at;
     if (lastActivity && lastActivity > task.greeting_sent_at) return;
 
-    const ok = await sendSMS(task.customer_contact, stillInChatMessage(task.customer_name));
+    const ok = await sendSMS(
+      task.customer_contact,
+      renderInactivityMessage(stage.message, {
+        customerName: task.customer_name,
+        operatorName: task.operator_name,
+      }),
+    );
     if (!ok) {
-      logger.warn(`Failed to send ping message for task ${taskId}`);
+      logger.warn(`Failed to send reminder ${stageIndex + 1} for task ${taskId}`);
       return;
     }
 
-    await tasksRepository.markPingSent(taskId, new Date());
+    await tasksRepository.markReminderSent(taskId, new Date(), stageIndex + 1);
   }
 
-  private async sendInternalInactiveAndClose(taskId: string): Promise<void> {
+  private async sendInternalInactiveAndClose(
+    taskId: string,
+    plan: TaskInactivityPlan,
+  ): Promise<void> {
     const task = await tasksRepository.findById(taskId);
     if (!task) return;
 
@@ -235,13 +260,24 @@ export class TasksService {
     const lastActivity = task.last_customer_activity_at;
     if (lastActivity && lastActivity > task.greeting_sent_at) return;
 
-    const ok = await sendSMS(task.customer_contact, inactivityCloseMessage(task.customer_name));
+    const ok = await sendSMS(
+      task.customer_contact,
+      renderInactivityMessage(plan.close.message, {
+        customerName: task.customer_name,
+        operatorName: task.operator_name,
+      }),
+    );
     if (!ok) {
       logger.warn(`Failed to send inactivity message for task ${taskId}`);
       return;
     }
 
-    await tasksRepository.closeDueToInactivity(taskId, new Date());
+    // Task interna não tem Conversation: só completeTask se aplica (default: encerra)
+    if (plan.close.completeTask ?? true) {
+      await tasksRepository.closeDueToInactivity(taskId, new Date());
+    } else {
+      await tasksRepository.markInactiveSent(taskId, new Date());
+    }
     taskInactivityScheduler.cancel(taskId);
   }
 
@@ -596,6 +632,10 @@ export class TasksService {
       const customerFrom = attrs.from;
 
       const customerName = this.pickCustomerName(attrs);
+      const policyTarget: TaskInactivityTarget = {
+        channelType: typeof channelType === 'string' ? channelType : undefined,
+        queues: [task.taskQueueSid, task.taskQueueFriendlyName],
+      };
 
       const existingState = await flexTasksRepository.findByTaskSid(task.sid);
 
@@ -642,7 +682,12 @@ export class TasksService {
           continue;
         }
 
-        this.scheduleFlexInactivityTimers(task.sid, existingState.greeting_sent_at);
+        await this.scheduleFlexInactivityTimers(
+          task.sid,
+          existingState.greeting_sent_at,
+          policyTarget,
+          existingState.reminders_sent,
+        );
         continue;
       }
 
@@ -678,7 +723,7 @@ export class TasksService {
 
       const greetingSentAt = new Date();
       await flexTasksRepository.setGreetingSent(task.sid, greetingSentAt);
-      this.scheduleFlexInactivityTimers(task.sid, greetingSentAt);
+      await this.scheduleFlexInactivityTimers(task.sid, greetingSentAt, policyTarget);
       logger.log(`Flex task ${task.sid}: greeting sent`, 'Flex');
     }
 
@@ -712,21 +757,43 @@ export class TasksService {
     logger.log(`Flex task ${state.task_sid}: customer activity detected`, 'Flex');
   }
 
-  private scheduleFlexInactivityTimers(taskSid: string, greetingSentAt: Date): void {
+  private async scheduleFlexInactivityTimers(
+    taskSid: string,
+    greetingSentAt: Date,
+    target: TaskInactivityTarget,
+    remindersSent = 0,
+  ): Promise<void> {
     if (taskInactivityScheduler.has(taskSid)) return;
 
-    taskInactivityScheduler.schedule(taskSid, greetingSentAt, {
-      onPing: async () => this.sendFlexPingIfInactive(taskSid),
-      onInactive: async () => this.sendFlexInactiveAndClose(taskSid),
-    });
+    const plan = await taskInactivityPoliciesService.resolve(target);
+
+    taskInactivityScheduler.schedule(
+      taskSid,
+      greetingSentAt,
+      plan,
+      {
+        onReminder: async (stageIndex) =>
+          this.sendFlexReminderIfInactive(taskSid, plan, stageIndex),
+        onInactive: async () => this.sendFlexInactiveAndClose(taskSid, plan),
+      },
+      remindersSent,
+    );
   }
 
-  private async sendFlexPingIfInactive(taskSid: string): Promise<void> {
+  private async sendFlexReminderIfInactive(
+    taskSid: string,
+    plan: TaskInactivityPlan,
+    stageIndex: number,
+  ): Promise<void> {
+    const stage = plan.stages[stageIndex];
+    if (!stage) return;
+
     const task = await flexTasksRepository.findByTaskSid(taskSid);
     if (!task) return;
 
     if (!task.greeting_sent_at) return;
-    if (task.ping_sent_at) return;
+    // Mesma regra das tasks internas: só evita reenvio
+    if ((task.reminders_sent ?? 0) > stageIndex) return;
     if (!task.conversation_sid) return;
 
     if (task.last_customer_activity_at && task.last_customer_activity_at > task.greeting_sent_at)
@@ -747,7 +814,7 @@ export class TasksService {
     );
     if (!workerIdentity) {
       logger.warn(
-        `Flex task ${taskSid}: worker participant not found in ${task.conversation_sid}; skipping ping`,
+        `Flex task ${taskSid}: worker participant not found in ${task.conversation_sid}; skipping reminder ${stageIndex + 1}`,
         'Flex',
       );
       return;
@@ -755,16 +822,19 @@ export class TasksService {
 
     const ok = await this.sendConversationMessage(
       task.conversation_sid,
-      stillInChatMessage(task.customer_name || 'cliente'),
+      renderInactivityMessage(stage.message, {
+        customerName: task.customer_name || 'cliente',
+        operatorName: task.worker_name,
+      }),
       workerIdentity,
     );
     if (!ok) return;
 
-    await flexTasksRepository.markPingSent(taskSid, new Date());
-    logger.log(`Flex task ${taskSid}: ping sent`, 'Flex');
+    await flexTasksRepository.markReminderSent(taskSid, new Date(), stageIndex + 1);
+    logger.log(`Flex task ${taskSid}: reminder ${stageIndex + 1} sent`, 'Flex');
   }
 
-  private async sendFlexInactiveAndClose(taskSid: string): Promise<void> {
+  private async sendFlexInactiveAndClose(taskSid: string, plan: TaskInactivityPlan): Promise<void> {
     const task = await flexTasksRepository.findByTaskSid(taskSid);
     if (!task) return;
 
@@ -798,7 +868,10 @@ export class TasksService {
 
     const ok = await this.sendConversationMessage(
       task.conversation_sid,
-      inactivityCloseMessage(task.customer_name || 'cliente'),
+      renderInactivityMessage(plan.close.message, {
+        customerName: task.customer_name || 'cliente',
+        operatorName: task.worker_name,
+      }),
       workerIdentity,
     );
     if (!ok) return;
@@ -807,11 +880,15 @@ export class TasksService {
     await flexTasksRepository.markInactiveSent(taskSid, now);
     logger.log(`Flex task ${taskSid}: inactive sent`, 'Flex');
 
-    if (process.env.TASKS_FLEX_CLOSE_CONVERSATION !== 'false') {
+    const closeConversation =
+      plan.close.closeConversation ?? process.env.TASKS_FLEX_CLOSE_CONVERSATION !== 'false';
+    if (closeConversation) {
       await this.closeConversation(task.conversation_sid);
     }
 
-    if (process.env.TASKS_FLEX_COMPLETE_TASK !== 'false') {
+    const completeTask =
+      plan.close.completeTask ?? process.env.TASKS_FLEX_COMPLETE_TASK !== 'false';
+    if (completeTask) {
       await this.completeTaskRouterTask(taskSid);
     }
 
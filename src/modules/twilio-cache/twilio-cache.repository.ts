@@ -26,6 +26,36 @@ export class TwilioCacheRepository {
     };
   }
 
+  /**
+   * Entradas cujo cache_key começa com `prefix`. A chave primária é o cache_key, então a
+   * tabela inteira é lida em páginas e o filtro é feito na aplicação.
+   */
+  async listByPrefix(prefix: string, pageSize = 500): Promise<TwilioCacheEntry[]> {
+    const query = 'SELECT cache_key, value, updated_at FROM twilio_cache';
+    const entries: TwilioCacheEntry[] = [];
+    let pageState: string | undefined;
+
+    do {
+      const result = await this.client.execute(query, [], {
+        prepare: true,
+        fetchSize: pageSize,
+        pageState,
+      });
+      for (const row of result.rows) {
+        const key: string = row.get('cache_key') ?? '';
+        if (!key.startsWith(prefix)) continue;
+        entries.push({
+          key,
+          value: row.get('value') ?? '',
+          updatedAt: row.get('updated_at') ?? new Date(0),
+        });
+      }
+      pageState = result.pageState;
+    } while (pageState);
+
+    return entries;
+  }
+
   async set(key: string, value: string): Promise<void> {
     const query = 'INSERT INTO twilio_cache (cache_key, value, updated_at) VALUES (?, ?, ?)';
     await this.client.execute(query, [key, value, new Date()], {
@@ -37,6 +67,12 @@ export class TwilioCacheRepository {
     const query = 'DELETE FROM twilio_cache WHERE cache_key = ?';
     await this.client.execute(query, [key], { prepare: true });
   }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const query = 'DELETE FROM twilio_cache WHERE cache_key IN ?';
+    await this.client.execute(query, [keys], { prepare: true });
+  }
 }
 
 export const twilioCacheRepository = new TwilioCacheRepository();
@@ -68,6 +68,7 @@ export interface Task {
   ping_sent_at?: Date;
   inactive_sent_at?: Date;
   last_customer_activity_at?: Date;
+  reminders_sent?: number;
   closed_at?: Date;
   close_reason?: string;
 }
@@ -82,3 +83,53 @@ export interface AssignTaskInput {
   operatorName: string;
   sendGreeting?: boolean;
 }
+
+// Lembrete enviado após `delaySeconds` sem resposta, contados a partir do estágio anterior
+// (ou da saudação, no primeiro). Mensagens aceitam {{customerName}} e {{operatorName}}.
+export interface TaskInactivityStage {
+  delaySeconds: number;
+  message: string;
+}
+
+// Encerramento após o último lembrete. No Flex, closeConversation/completeTask omitidos seguem
+// TASKS_FLEX_CLOSE_CONVERSATION/TASKS_FLEX_COMPLETE_TASK. Tasks internas (SMS, sem
+// Conversation) ignoram closeConversation e só são encerradas quando completeTask não é false.
+export interface TaskInactivityCloseAction {
+  delaySeconds: number;
+  message: string;
+  closeConversation?: boolean;
+  completeTask?: boolean;
+}
+
+export interface TaskInactivityPolicy {
+  id: string;
+  name: string;
+  channel_type?: string;
+  queue?: string;
+  is_default: boolean;
+  stages: TaskInactivityStage[];
+  close: TaskInactivityCloseAction;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TaskInactivityPolicyInput {
+  name: string;
+  channelType?: string;
+  queue?: string;
+  isDefault?: boolean;
+  stages: TaskInactivityStage[];
+  close: TaskInactivityCloseAction;
+}
+
+export interface TaskInactivityPolicyUpdateInput {
+  name?: string;
+  channelType?: string;
+  queue?: string;
+  isDefault?: boolean;
+  stages?: TaskInactivityStage[];
+  close?: TaskInactivityCloseAction;
+}
+
+// O que o agendador precisa de uma política (também atendido pela política padrão embutida)
+export type TaskInactivityPlan = Pick<TaskInactivityPolicy, 'name' | 'stages' | 'close'>;